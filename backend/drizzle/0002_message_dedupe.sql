@@ -0,0 +1,19 @@
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "content_hash" text;
+
+-- Backfill using the same format as services/thread-messages.ts: sha256 of "<epoch ms>:<text>".
+UPDATE "messages"
+SET "content_hash" = encode(
+  sha256(convert_to(((extract(epoch from "timestamp") * 1000)::bigint)::text || ':' || "text", 'UTF8')),
+  'hex'
+)
+WHERE "content_hash" IS NULL;
+
+DELETE FROM "messages" a
+USING "messages" b
+WHERE a."thread_id" = b."thread_id"
+  AND a."content_hash" = b."content_hash"
+  AND (a."created_at", a."id") > (b."created_at", b."id");
+
+ALTER TABLE "messages" ALTER COLUMN "content_hash" SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_messages_thread_content_hash" ON "messages" USING btree ("thread_id","content_hash");
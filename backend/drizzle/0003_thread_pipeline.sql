@@ -0,0 +1,5 @@
+-- Threads created before the pipeline existed used 'active'; treat them as open inquiries.
+UPDATE "threads" SET "status" = 'inquiry' WHERE "status" = 'active';
+ALTER TABLE "threads" ALTER COLUMN "status" SET DEFAULT 'inquiry';
+
+CREATE INDEX IF NOT EXISTS "idx_threads_account_updated" ON "threads" USING btree ("account_id","updated_at");
@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email_verified_at" timestamp;
+
+-- Emails are stored lowercased once verified
+CREATE INDEX IF NOT EXISTS "idx_users_email" ON "users" USING btree ("email");
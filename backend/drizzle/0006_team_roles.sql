@@ -0,0 +1,44 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "role" text DEFAULT 'member' NOT NULL;
+
+-- The first device on each existing account owns it.
+UPDATE "users" SET "role" = 'owner'
+WHERE "id" IN (
+  SELECT DISTINCT ON ("account_id") "id" FROM "users" ORDER BY "account_id", "created_at", "id"
+);
+
+CREATE TABLE IF NOT EXISTS "account_invites" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "account_id" uuid NOT NULL,
+  "created_by" uuid NOT NULL,
+  "role" text DEFAULT 'member' NOT NULL,
+  "token_hash" text NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "accepted_by" uuid,
+  "accepted_at" timestamp,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "account_invites" ADD CONSTRAINT "account_invites_account_id_accounts_id_fk"
+ FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "account_invites" ADD CONSTRAINT "account_invites_created_by_users_id_fk"
+ FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "account_invites" ADD CONSTRAINT "account_invites_accepted_by_users_id_fk"
+ FOREIGN KEY ("accepted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_account_invites_account_id" ON "account_invites" USING btree ("account_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_account_invites_token_hash" ON "account_invites" USING btree ("token_hash");
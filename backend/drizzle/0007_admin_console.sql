@@ -0,0 +1,17 @@
+ALTER TABLE "accounts" ADD COLUMN IF NOT EXISTS "daily_request_limit" integer;
+ALTER TABLE "accounts" ADD COLUMN IF NOT EXISTS "user_daily_request_limit" integer;
+
+CREATE TABLE IF NOT EXISTS "admin_audit_log" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "actor" text NOT NULL,
+  "action" text NOT NULL,
+  "account_id" uuid,
+  "status_code" integer NOT NULL,
+  "metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "ip_address" text,
+  "user_agent" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_admin_audit_log_account_id" ON "admin_audit_log" USING btree ("account_id","created_at");
+CREATE INDEX IF NOT EXISTS "idx_admin_audit_log_actor" ON "admin_audit_log" USING btree ("actor","created_at");
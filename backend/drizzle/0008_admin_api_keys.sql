@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "admin_api_keys" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "key_prefix" text NOT NULL,
+  "key_hash" text NOT NULL,
+  "scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "expires_at" timestamp,
+  "last_used_at" timestamp,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_admin_api_keys_key_prefix" ON "admin_api_keys" USING btree ("key_prefix");
+
+ALTER TABLE "admin_audit_log" ADD COLUMN IF NOT EXISTS "admin_key_id" uuid;
+
+DO $$ BEGIN
+ ALTER TABLE "admin_audit_log" ADD CONSTRAINT "admin_audit_log_admin_key_id_admin_api_keys_id_fk"
+ FOREIGN KEY ("admin_key_id") REFERENCES "public"."admin_api_keys"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "billing_events" (
+  "id" text PRIMARY KEY NOT NULL,
+  "type" text NOT NULL,
+  "account_id" uuid,
+  "processed_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_billing_events_account_id" ON "billing_events" USING btree ("account_id","processed_at");
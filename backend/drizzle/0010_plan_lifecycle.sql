@@ -0,0 +1,2 @@
+ALTER TABLE "accounts" ADD COLUMN IF NOT EXISTS "trial_ends_at" timestamp;
+ALTER TABLE "accounts" ADD COLUMN IF NOT EXISTS "plan_auto_renews" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,30 @@
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "position" integer;
+
+-- Scraped messages are now ordered by "position" and hashed without their (unstable) timestamp,
+-- using the same format as services/thread-messages.ts hashTranscriptMessage: sha256 of
+-- "<sender>:<position>:<text>", where position is the message's 0-based index among the thread's
+-- scraped messages. Suggestion rows (sender 'claude') keep a null position and their
+-- timestamp-based hash.
+WITH ordered AS (
+  SELECT
+    "id",
+    "sender_type",
+    "text",
+    row_number() OVER (
+      PARTITION BY "thread_id"
+      ORDER BY "timestamp", "created_at", "id"
+    ) - 1 AS position
+  FROM "messages"
+  WHERE "sender_type" <> 'claude'
+)
+UPDATE "messages" m
+SET
+  "position" = ordered.position,
+  "content_hash" = encode(
+    sha256(convert_to(ordered."sender_type"::text || ':' || ordered.position::text || ':' || ordered."text", 'UTF8')),
+    'hex'
+  )
+FROM ordered
+WHERE m."id" = ordered."id";
+
+CREATE INDEX IF NOT EXISTS "idx_messages_thread_position" ON "messages" USING btree ("thread_id","position");
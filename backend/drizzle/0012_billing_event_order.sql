@@ -0,0 +1 @@
+ALTER TABLE "accounts" ADD COLUMN IF NOT EXISTS "billing_event_at" timestamp;
@@ -0,0 +1,68 @@
+import { closeDatabaseConnection } from '../src/db/client.js';
+import { createAdminKey, listAdminKeys, revokeAdminKey } from '../src/services/admin-keys.js';
+import { ADMIN_SCOPES, type AdminScope } from '../src/types/index.js';
+
+const [, , command, ...args] = process.argv;
+
+const usage = [
+  'Usage:',
+  '  npm run admin:keys -- create <name> <scope,scope,...|all> [expiresAtISO]',
+  '  npm run admin:keys -- revoke <keyId>',
+  '  npm run admin:keys -- list',
+  '',
+  `Scopes: ${ADMIN_SCOPES.join(', ')}`,
+].join('\n');
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+if (command === 'create') {
+  const [name, scopesArg, expiresAtArg] = args;
+
+  if (!name || !scopesArg) {
+    fail(usage);
+  }
+
+  const scopes = scopesArg === 'all'
+    ? [...ADMIN_SCOPES]
+    : scopesArg.split(',').map((scope) => scope.trim()).filter(Boolean);
+  const invalid = scopes.filter((scope) => !ADMIN_SCOPES.includes(scope as AdminScope));
+  if (scopes.length === 0 || invalid.length > 0) {
+    fail(`Invalid scopes: ${invalid.join(', ') || scopesArg}. Use any of: ${ADMIN_SCOPES.join(', ')}`);
+  }
+
+  let expiresAt: Date | null = null;
+  if (typeof expiresAtArg === 'string' && expiresAtArg.length > 0) {
+    expiresAt = new Date(expiresAtArg);
+    if (Number.isNaN(expiresAt.getTime())) {
+      fail('Invalid expiresAt. Use ISO format (e.g. 2025-01-31T00:00:00Z).');
+    }
+  }
+
+  const { key, adminKey } = await createAdminKey(name, scopes as AdminScope[], expiresAt);
+  console.log(JSON.stringify({ ...adminKey, key }, null, 2));
+  console.error('Store this key now; it cannot be shown again.');
+} else if (command === 'revoke') {
+  const [keyId] = args;
+
+  if (!keyId) {
+    fail(usage);
+  }
+
+  try {
+    console.log(JSON.stringify(await revokeAdminKey(keyId), null, 2));
+  } catch (error) {
+    if (error instanceof Error && error.message === 'ADMIN_KEY_NOT_FOUND') {
+      fail(`No admin key with id ${keyId}`);
+    }
+    throw error;
+  }
+} else if (command === 'list') {
+  console.log(JSON.stringify(await listAdminKeys(), null, 2));
+} else {
+  fail(usage);
+}
+
+await closeDatabaseConnection();
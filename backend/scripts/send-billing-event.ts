@@ -0,0 +1,75 @@
+import { randomUUID } from 'node:crypto';
+import * as dotenv from 'dotenv';
+import { signBillingPayload } from '../src/services/billing.js';
+
+if (process.env.NODE_ENV !== 'production') {
+  dotenv.config();
+}
+
+// Signs a sample subscription event with BILLING_WEBHOOK_SECRET and posts it to the local API,
+// standing in for the payment provider during development.
+
+const [, , eventType, accountId, planArg = 'pro'] = process.argv;
+
+const eventTypes = [
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.paid',
+  'invoice.payment_failed',
+];
+
+if (!eventType || !accountId || !eventTypes.includes(eventType)) {
+  console.error('Usage: npm run billing:send -- <eventType> <accountId> [pro|enterprise]');
+  console.error(`Event types: ${eventTypes.join(', ')}`);
+  process.exit(1);
+}
+
+const secret = process.env.BILLING_WEBHOOK_SECRET;
+if (!secret) {
+  console.error('BILLING_WEBHOOK_SECRET is not set');
+  process.exit(1);
+}
+
+const now = Math.floor(Date.now() / 1000);
+const periodEnd = now + 30 * 24 * 60 * 60;
+const metadata = { account_id: accountId, plan: planArg };
+const subscriptionId = `sub_local_${accountId.slice(0, 8)}`;
+
+const object = eventType.startsWith('invoice.')
+  ? {
+    object: 'invoice',
+    id: `in_${randomUUID().replace(/-/g, '')}`,
+    subscription: subscriptionId,
+    subscription_details: { metadata },
+    lines: { data: [{ period: { start: now, end: periodEnd }, price: { lookup_key: planArg } }] },
+  }
+  : {
+    object: 'subscription',
+    id: subscriptionId,
+    status: eventType === 'customer.subscription.deleted' ? 'canceled' : 'active',
+    cancel_at_period_end: false,
+    current_period_end: periodEnd,
+    metadata,
+    items: { data: [{ price: { lookup_key: planArg } }] },
+  };
+
+const payload = JSON.stringify({
+  id: `evt_${randomUUID().replace(/-/g, '')}`,
+  object: 'event',
+  type: eventType,
+  created: now,
+  data: { object },
+});
+
+const apiUrl = process.env.API_URL ?? `http://localhost:${process.env.PORT ?? '3000'}`;
+const response = await fetch(`${apiUrl}/billing/webhook`, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': signBillingPayload(payload, secret),
+  },
+  body: payload,
+});
+
+console.log(response.status, await response.text());
@@ -38,6 +38,8 @@ await db
     plan,
     plan_tier: plan,
     plan_expires_at: expiresAt,
+    trial_ends_at: null,
+    plan_auto_renews: false,
     updated_at: new Date(),
   })
   .where(eq(accounts.id, accountId));
@@ -0,0 +1,100 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { CompletionRequest, CompletionResponse, SuggestionProvider } from './provider.js';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-20241022';
+
+// Per-call timeout. Retries are left to the model chain in ai/suggestion.ts, which moves on to
+// the next model when a call times out.
+const PROVIDER_TIMEOUT_MS = parseInt(process.env.PROVIDER_TIMEOUT_MS || '20000', 10);
+
+// Forced tool call used as JSON mode: the tool input is the structured reply.
+const OUTPUT_TOOL_NAME = 'submit_reply';
+
+export function createAnthropicProvider(model: string = DEFAULT_ANTHROPIC_MODEL): SuggestionProvider {
+  return {
+    name: 'anthropic',
+    model,
+    complete: (request) => completeWithAnthropic(model, request),
+  };
+}
+
+async function completeWithAnthropic(
+  model: string,
+  request: CompletionRequest
+): Promise<CompletionResponse> {
+  try {
+    const apiKey = process.env.ANTHROPIC_API_KEY ?? process.env.CLAUDE_API_KEY;
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY (or CLAUDE_API_KEY) missing');
+    }
+
+    const anthropic = new Anthropic({ apiKey, timeout: PROVIDER_TIMEOUT_MS, maxRetries: 0 });
+
+    console.info('[Claude] Request', {
+      model,
+      maxTokens: request.maxTokens || 300,
+      systemLength: request.system.length,
+      userMessageLength: request.userMessage.length,
+    });
+
+    const params = {
+      model,
+      max_tokens: request.maxTokens || 300,
+      temperature: request.temperature ?? 0.7,
+      system: request.system,
+      messages: [
+        {
+          role: 'user' as const,
+          content: request.userMessage,
+        },
+      ],
+      ...(request.jsonSchema
+        ? {
+          tools: [{
+            name: OUTPUT_TOOL_NAME,
+            description: 'Submit the suggested reply.',
+            input_schema: { ...request.jsonSchema, type: 'object' as const },
+          }],
+          tool_choice: { type: 'tool' as const, name: OUTPUT_TOOL_NAME },
+        }
+        : {}),
+    };
+
+    let message: Anthropic.Message;
+    if (request.onText) {
+      const stream = anthropic.messages.stream(params);
+      stream.on('text', request.onText);
+      // In tool mode the reply streams as tool input JSON rather than text.
+      stream.on('inputJson', (partialJson) => request.onText?.(partialJson));
+      message = await stream.finalMessage();
+    } else {
+      message = await anthropic.messages.create(params);
+    }
+
+    return {
+      content: getMessageContent(message),
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+        totalTokens: message.usage.input_tokens + message.usage.output_tokens,
+      },
+    };
+  } catch (error) {
+    console.error('[Claude] API call failed:', error);
+    // The SDK error stays on `cause` so the circuit breaker can read its HTTP status.
+    throw new Error(error instanceof Error ? error.message : 'Claude API call failed', { cause: error });
+  }
+}
+
+function getMessageContent(message: Anthropic.Message): string {
+  const toolUse = message.content.find((block) => block.type === 'tool_use');
+  if (toolUse && toolUse.type === 'tool_use') {
+    return JSON.stringify(toolUse.input);
+  }
+
+  const textContent = message.content.find((block) => block.type === 'text');
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('Claude returned non-text response');
+  }
+  return textContent.text;
+}
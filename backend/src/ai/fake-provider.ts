@@ -0,0 +1,95 @@
+import { readFileSync } from 'node:fs';
+import type { CompletionRequest, CompletionResponse, SuggestionProvider } from './provider.js';
+
+const FAKE_MODEL = 'fake-scripted-v1';
+const STREAM_CHUNK_SIZE = 16;
+const VARIANT_TONES = ['friendly', 'direct', 'formal', 'casual', 'upbeat'];
+
+/**
+ * Offline provider for local development and tests.
+ *
+ * With a script file (FAKE_PROVIDER_SCRIPT), responses are returned in order and
+ * cycle when exhausted; entries may be raw strings or objects serialized as JSON.
+ * Without one, a canned reply is built from the prompt, so output is deterministic.
+ */
+export function createFakeProvider(scriptPath?: string): SuggestionProvider {
+  const script = scriptPath ? loadScript(scriptPath) : null;
+  let callCount = 0;
+
+  return {
+    name: 'fake',
+    model: FAKE_MODEL,
+    complete: async (request: CompletionRequest): Promise<CompletionResponse> => {
+      const content = script && script.length > 0
+        ? script[callCount % script.length] as string
+        : buildCannedResponse(request);
+      callCount += 1;
+
+      if (request.onText) {
+        for (let index = 0; index < content.length; index += STREAM_CHUNK_SIZE) {
+          request.onText(content.slice(index, index + STREAM_CHUNK_SIZE));
+        }
+      }
+
+      const inputTokens = estimateTokens(request.system) + estimateTokens(request.userMessage);
+      const outputTokens = estimateTokens(content);
+
+      return {
+        content,
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        },
+      };
+    },
+  };
+}
+
+function loadScript(scriptPath: string): string[] {
+  const parsed = JSON.parse(readFileSync(scriptPath, 'utf8')) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error('FAKE_PROVIDER_SCRIPT must contain a JSON array of responses');
+  }
+
+  return parsed.map((entry) => (typeof entry === 'string' ? entry : JSON.stringify(entry)));
+}
+
+function buildCannedResponse(request: CompletionRequest): string {
+  const variantMatch = /exactly (\d+) alternative replies/.exec(request.system);
+  const variantCount = variantMatch ? parseInt(variantMatch[1] as string, 10) : 1;
+
+  const lastOtherLine = request.userMessage
+    .split('\n')
+    .filter((line) => line.startsWith('Other:'))
+    .pop();
+  const lastMessage = lastOtherLine ? lastOtherLine.slice('Other:'.length).trim() : '';
+
+  const base = {
+    suggestedMessage: lastMessage
+      ? 'Thanks for your message! Happy to help. What time works best for you?'
+      : 'Hi! Thanks for reaching out. How can I help?',
+    intentScore: lastMessage ? 0.6 : 0.3,
+    reasoning: lastMessage
+      ? 'Fake provider: acknowledges the latest message and asks for a next step.'
+      : 'Fake provider: no messages yet, so it opens the conversation.',
+    nextAction: 'answer_question',
+  };
+
+  if (variantCount <= 1) {
+    return JSON.stringify(base);
+  }
+
+  return JSON.stringify({
+    variants: Array.from({ length: variantCount }, (_, index) => ({
+      ...base,
+      tone: VARIANT_TONES[index % VARIANT_TONES.length],
+      suggestedMessage: index === 0 ? base.suggestedMessage : `${base.suggestedMessage} (option ${index + 1})`,
+      intentScore: Math.max(0, base.intentScore - index * 0.05),
+    })),
+  });
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,228 @@
+import { DEFAULT_MAX_MESSAGE_LENGTH, fitToLength } from '../services/message-length.js';
+
+// Shared with the extension: its background script imports this file to answer when the API
+// itself is unreachable. Keep it free of imports other than services/message-length.ts (no
+// packages, no Node APIs; test/fallback-suggester.test.ts fails otherwise), and keep the types
+// below structurally compatible with SuggestionResponse in types/index.ts.
+
+type NextAction = 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+
+export interface FallbackSuggestionVariant {
+  suggestedMessage: string;
+  tone: string;
+  intentScore: number;
+  reasoning: string;
+  nextAction: NextAction;
+}
+
+export interface FallbackSuggestion {
+  suggestedMessage: string;
+  intentScore: number;
+  reasoning: string;
+  nextAction: NextAction;
+  variants: FallbackSuggestionVariant[];
+  source: 'fallback';
+}
+
+export const FALLBACK_PROVIDER = 'fallback';
+export const FALLBACK_MODEL = 'rules-v1';
+
+export interface FallbackSuggestionInput {
+  conversationGoal: string;
+  messages: Array<{ text: string; isUser: boolean }>;
+  listingTitle?: string;
+  listingPrice?: string;
+  quickQuestion?: string;
+  variantCount?: number;
+  maxLength?: number;
+}
+
+type Topic = 'availability' | 'price' | 'pickup' | 'condition';
+
+interface Template {
+  tone: string;
+  text: (listing: ListingDetails) => string;
+}
+
+interface ListingDetails {
+  item: string;
+  price: string | null;
+}
+
+const TOPIC_PATTERNS: Array<[Topic, RegExp]> = [
+  ['availability', /\b(available|still (have|there|for sale|selling)|sold|is this still)\b/i],
+  ['price', /\b(price|how much|lowest|best offer|firm|negotiable|discount|obo|deal|take \$?\d+)\b|\$\s?\d+/i],
+  ['pickup', /\b(pick ?up|meet|location|where|deliver|ship|address|when can|what time|today|tomorrow)\b/i],
+  ['condition', /\b(condition|scratch(es)?|damage[sd]?|work(s|ing)?|broken|issues?|wear|defects?|flaws?)\b/i],
+];
+
+const QUICK_QUESTION_TOPICS: Record<string, Topic> = {
+  availability: 'availability',
+  condition: 'condition',
+  pickup_location: 'pickup',
+  pickup_time: 'pickup',
+  price_flex: 'price',
+};
+
+// The seller answers the buyer's question.
+const SELLER_TEMPLATES: Record<Topic, Template[]> = {
+  availability: [
+    { tone: 'friendly', text: ({ item }) => `Hi! Yes, ${item} is still available. When would you like to come see it?` },
+    { tone: 'direct', text: ({ item }) => `Yes, ${item} is available. What day works for pickup?` },
+    {
+      tone: 'formal',
+      text: ({ item }) => `Thank you for your interest. ${capitalize(item)} is still available if you would like to arrange a time.`,
+    },
+  ],
+  price: [
+    {
+      tone: 'friendly',
+      text: ({ price }) => price
+        ? `Thanks for asking! I'm asking ${price}, but I'm open to a reasonable offer.`
+        : `Thanks for asking! I'm open to a reasonable offer. What did you have in mind?`,
+    },
+    {
+      tone: 'direct',
+      text: ({ price }) => price ? `The price is ${price}. What would you offer?` : `Make me an offer and we'll see.`,
+    },
+    {
+      tone: 'formal',
+      text: ({ price }) => price
+        ? `The listed price is ${price}. I'm happy to consider a fair offer.`
+        : `I'm happy to consider a fair offer.`,
+    },
+  ],
+  pickup: [
+    { tone: 'friendly', text: () => `Pickup works! What day and time are good for you? We can meet somewhere public nearby.` },
+    { tone: 'direct', text: () => `When can you pick it up? Let me know a time that works.` },
+    { tone: 'formal', text: () => `I'm happy to arrange pickup. Please let me know which day and time suit you.` },
+  ],
+  condition: [
+    { tone: 'friendly', text: () => `Good question! Happy to tell you more about the condition. Want me to send a few more photos?` },
+    { tone: 'direct', text: () => `I can send extra photos of the condition. Anything specific you want to see?` },
+    {
+      tone: 'formal',
+      text: () => `I'd be glad to share more details and photos of the condition. Is there anything in particular you'd like to check?`,
+    },
+  ],
+};
+
+// The buyer asks the seller.
+const BUYER_TEMPLATES: Record<Topic, Template[]> = {
+  availability: [
+    { tone: 'friendly', text: ({ item }) => `Hi! Is ${item} still available?` },
+    { tone: 'direct', text: ({ item }) => `Is ${item} still for sale?` },
+    { tone: 'formal', text: ({ item }) => `Hello, I'm interested in ${item}. Is it still available?` },
+  ],
+  price: [
+    {
+      tone: 'friendly',
+      text: ({ price }) => price ? `Hi! Would you take a little less than ${price}?` : `Hi! Are you flexible on the price?`,
+    },
+    { tone: 'direct', text: () => `Are you firm on the price?` },
+    { tone: 'formal', text: () => `Would you be open to an offer on the price?` },
+  ],
+  pickup: [
+    { tone: 'friendly', text: () => `Great! When and where would be a good time to pick it up?` },
+    { tone: 'direct', text: () => `Where can we meet, and what time works for you?` },
+    { tone: 'formal', text: () => `Could you let me know a convenient time and place for pickup?` },
+  ],
+  condition: [
+    { tone: 'friendly', text: () => `Hi! What's the condition like? Any issues I should know about?` },
+    { tone: 'direct', text: () => `Any scratches, damage or issues?` },
+    { tone: 'formal', text: () => `Could you tell me more about the condition of the item?` },
+  ],
+};
+
+const GENERAL_TEMPLATES: Template[] = [
+  { tone: 'friendly', text: () => `Thanks for your message! Happy to help. What would you like to know?` },
+  { tone: 'direct', text: () => `Thanks! What can I help you with?` },
+  { tone: 'formal', text: () => `Thank you for reaching out. How can I help?` },
+];
+
+const TOPIC_NEXT_ACTIONS: Record<Topic, NextAction> = {
+  availability: 'ask_availability',
+  price: 'answer_question',
+  pickup: 'send_booking_link',
+  condition: 'answer_question',
+};
+
+// Goals that imply a topic when the last message does not name one.
+const GOAL_TOPICS: Record<string, Topic> = {
+  negotiate_price: 'price',
+  arrange_pickup: 'pickup',
+};
+
+/**
+ * Deterministic, template-driven suggestion used when no model can answer. The topic comes
+ * from the selected quick question, then keywords in the other party's last message, then
+ * the conversation goal.
+ */
+export function buildFallbackSuggestion(input: FallbackSuggestionInput): FallbackSuggestion {
+  const lastIncoming = [...input.messages].reverse().find((message) => !message.isUser)?.text ?? '';
+  const topic = (input.quickQuestion ? QUICK_QUESTION_TOPICS[input.quickQuestion] : undefined) ??
+    detectTopic(lastIncoming) ??
+    GOAL_TOPICS[input.conversationGoal] ??
+    null;
+
+  const isBuyer = input.conversationGoal === 'buy_item';
+  const templates = topic ? (isBuyer ? BUYER_TEMPLATES : SELLER_TEMPLATES)[topic] : GENERAL_TEMPLATES;
+  const listing: ListingDetails = {
+    item: input.listingTitle?.trim() ? `the ${input.listingTitle.trim()}` : 'it',
+    price: input.listingPrice?.trim() || null,
+  };
+  const intentScore = scoreIntent(topic, lastIncoming, input.messages.length);
+  const nextAction = topic ? TOPIC_NEXT_ACTIONS[topic] : 'answer_question';
+  const reasoning = topic
+    ? `Template reply to a question about ${topic} (assistant offline).`
+    : 'General template reply (assistant offline).';
+
+  const count = Math.max(1, Math.min(input.variantCount ?? 1, templates.length));
+  const variants: FallbackSuggestionVariant[] = templates.slice(0, count).map((template) => ({
+    suggestedMessage: fitToLength(template.text(listing), input.maxLength ?? DEFAULT_MAX_MESSAGE_LENGTH),
+    tone: template.tone,
+    intentScore,
+    reasoning,
+    nextAction,
+  }));
+  const [best] = variants as [FallbackSuggestionVariant, ...FallbackSuggestionVariant[]];
+
+  return {
+    suggestedMessage: best.suggestedMessage,
+    intentScore: best.intentScore,
+    reasoning: best.reasoning,
+    nextAction: best.nextAction,
+    variants,
+    source: 'fallback',
+  };
+}
+
+function detectTopic(text: string): Topic | null {
+  const match = TOPIC_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : null;
+}
+
+/**
+ * Rough purchase intent: concrete questions (pickup, availability, price) and longer
+ * conversations score higher.
+ */
+function scoreIntent(topic: Topic | null, lastIncoming: string, messageCount: number): number {
+  const topicWeight: Record<Topic, number> = {
+    pickup: 0.3,
+    availability: 0.2,
+    price: 0.15,
+    condition: 0.1,
+  };
+
+  let score = 0.3 + (topic ? topicWeight[topic] : 0);
+  if (lastIncoming.includes('?')) {
+    score += 0.05;
+  }
+  score += Math.min(0.2, messageCount * 0.02);
+
+  return Math.round(Math.min(0.95, score) * 100) / 100;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,77 @@
+import { createAnthropicProvider } from './anthropic-provider.js';
+import { createFakeProvider } from './fake-provider.js';
+
+export interface CompletionRequest {
+  system: string;
+  userMessage: string;
+  maxTokens?: number;
+  temperature?: number;
+  /**
+   * JSON Schema the reply must match. Providers with a tool or JSON output mode enforce it and
+   * return the JSON as `content`; others rely on the prompt's format instructions.
+   */
+  jsonSchema?: Record<string, unknown>;
+  /** Receives text deltas as they stream in. Providers that cannot stream call it once with the full text. */
+  onText?: (text: string) => void;
+}
+
+export interface CompletionUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResponse {
+  content: string;
+  usage: CompletionUsage;
+}
+
+export interface SuggestionProvider {
+  /** Provider id, e.g. `anthropic` or `fake`. */
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export type ProviderName = 'anthropic' | 'fake';
+
+export const PROVIDER_NAMES: readonly ProviderName[] = ['anthropic', 'fake'];
+
+/** One entry in a plan's model chain (see services/entitlements.ts). */
+export interface ModelTarget {
+  provider: ProviderName;
+  model: string;
+}
+
+const cachedProviders = new Map<string, SuggestionProvider>();
+
+/**
+ * Returns the provider for `target`, or the one selected by SUGGESTION_PROVIDER
+ * (default `anthropic`) with ANTHROPIC_MODEL when no target is given.
+ * Use `fake` for local development and tests without network access; it ignores the model.
+ */
+export function getSuggestionProvider(target?: ModelTarget): SuggestionProvider {
+  const name = target?.provider ?? (process.env.SUGGESTION_PROVIDER ?? 'anthropic').trim().toLowerCase();
+  const model = target?.model ?? process.env.ANTHROPIC_MODEL;
+  const cacheKey = name === 'anthropic' ? `${name}:${model ?? ''}` : name;
+
+  const cached = cachedProviders.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let provider: SuggestionProvider;
+  switch (name) {
+    case 'anthropic':
+      provider = createAnthropicProvider(model);
+      break;
+    case 'fake':
+      provider = createFakeProvider(process.env.FAKE_PROVIDER_SCRIPT);
+      break;
+    default:
+      throw new Error(`Unknown SUGGESTION_PROVIDER: ${name}`);
+  }
+
+  cachedProviders.set(cacheKey, provider);
+  return provider;
+}
@@ -0,0 +1,300 @@
+import {
+  buildCondensePrompt,
+  buildPrompt,
+  buildRepairMessage,
+  buildTranscript,
+  type BuildPromptInput,
+} from '../services/prompt-builder.js';
+import { DEFAULT_MAX_MESSAGE_LENGTH, trimToSentence, truncateAtWord } from '../services/message-length.js';
+import { recordOutputRepair, type OutputRepairOutcome } from '../services/output-metrics.js';
+import { getSuggestionOutputJsonSchema, validateSuggestionOutput } from '../services/response-parser.js';
+import type { SuggestionResponse, SuggestionVariant } from '../types/index.js';
+import { buildFallbackSuggestion, FALLBACK_MODEL, FALLBACK_PROVIDER } from './fallback-suggester.js';
+import {
+  assertCircuitClosed,
+  isTimeoutError,
+  recordFailure,
+  recordSuccess,
+} from '../services/circuit-breaker.js';
+import {
+  getSuggestionProvider,
+  type CompletionResponse,
+  type CompletionUsage,
+  type ModelTarget,
+  type SuggestionProvider,
+} from './provider.js';
+
+export type GenerateSuggestionInput = BuildPromptInput & {
+  /**
+   * The account plan's model chain, tried in order; defaults to the configured provider.
+   * See services/entitlements.ts.
+   */
+  models?: readonly ModelTarget[];
+  onText?: (text: string) => void;
+};
+
+export interface GeneratedSuggestion {
+  suggestion: SuggestionResponse;
+  usage: CompletionUsage;
+  /** The provider and model that answered. */
+  provider: string;
+  model: string;
+  /** Earlier models in the chain that were skipped, as `provider:model`. */
+  fallbackFrom: string[];
+  /** Whether the model's first reply failed validation and was fixed by a repair round-trip. */
+  repaired: boolean;
+  promptLength: number;
+}
+
+/**
+ * Single entry point for suggestion generation, shared by the inline route and the worker.
+ * Builds the prompt, calls the first available model in the chain and parses the reply.
+ *
+ * A model is skipped when its circuit is open or the call times out before any text was
+ * streamed (streamed text cannot be taken back). When every model is skipped, the
+ * rule-based suggester answers instead (`source: 'fallback'`).
+ *
+ * A reply that fails validation gets one repair round-trip with the validation errors; if that
+ * is still invalid, throws SUGGESTION_OUTPUT_INVALID.
+ *
+ * Replies over `maxLength` are cut at a sentence boundary, or condensed by the same model when
+ * that would drop too much (see fitVariantLength).
+ */
+export async function generateSuggestion(input: GenerateSuggestionInput): Promise<GeneratedSuggestion> {
+  const { onText, models, ...promptInput } = input;
+  const variantCount = promptInput.variantCount ?? 1;
+  const maxLength = promptInput.maxLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+  const prompt = buildPrompt({ ...promptInput, maxLength });
+  const transcript = buildTranscript(promptInput.messages);
+  const jsonSchema = getSuggestionOutputJsonSchema(variantCount);
+  const providers: SuggestionProvider[] = models && models.length > 0
+    ? models.map((target) => getSuggestionProvider(target))
+    : [getSuggestionProvider()];
+  const fallbackFrom: string[] = [];
+
+  for (const provider of providers) {
+    let streamed = false;
+
+    try {
+      // Throws PROVIDER_CIRCUIT_OPEN while this provider+model is failing.
+      await assertCircuitClosed(provider.name, provider.model);
+    } catch (error) {
+      if (!(error instanceof Error && error.message === 'PROVIDER_CIRCUIT_OPEN')) {
+        throw error;
+      }
+      fallbackFrom.push(`${provider.name}:${provider.model}`);
+      continue;
+    }
+
+    let response: CompletionResponse;
+    try {
+      response = await provider.complete({
+        system: prompt.systemInstruction,
+        userMessage: transcript,
+        maxTokens: 300 * variantCount,
+        temperature: 0,
+        jsonSchema,
+        onText: onText
+          ? (text) => {
+            streamed = true;
+            onText(text);
+          }
+          : undefined,
+      });
+    } catch (error) {
+      await recordFailure(provider.name, provider.model, error);
+      if (streamed || !isTimeoutError(error)) {
+        throw error;
+      }
+      console.warn('[Suggestion] Model timed out, falling back', {
+        provider: provider.name,
+        model: provider.model,
+      });
+      fallbackFrom.push(`${provider.name}:${provider.model}`);
+      continue;
+    }
+    await recordSuccess(provider.name, provider.model);
+
+    let usage = response.usage;
+    let validation = validateSuggestionOutput(response.content, promptInput.conversationGoal, variantCount);
+    let outcome: OutputRepairOutcome = 'valid';
+
+    if (!validation.success) {
+      console.warn('[Suggestion] Invalid model output, requesting repair', {
+        provider: provider.name,
+        model: provider.model,
+        errors: validation.errors,
+      });
+
+      let repair: CompletionResponse;
+      try {
+        // Not streamed: the corrected reply replaces any partial text the client already has.
+        repair = await provider.complete({
+          system: prompt.systemInstruction,
+          userMessage: buildRepairMessage(transcript, response.content, validation.errors),
+          maxTokens: 300 * variantCount,
+          temperature: 0,
+          jsonSchema,
+        });
+      } catch (error) {
+        await recordFailure(provider.name, provider.model, error);
+        await trackOutputRepair(promptInput.conversationGoal, 'failed');
+        throw error;
+      }
+
+      usage = addUsage(usage, repair.usage);
+      validation = validateSuggestionOutput(repair.content, promptInput.conversationGoal, variantCount);
+      outcome = validation.success ? 'repaired' : 'failed';
+    }
+
+    await trackOutputRepair(promptInput.conversationGoal, outcome);
+
+    if (!validation.success) {
+      console.error('[Suggestion] Model output still invalid after repair', {
+        provider: provider.name,
+        model: provider.model,
+        errors: validation.errors,
+      });
+      throw new Error('SUGGESTION_OUTPUT_INVALID');
+    }
+
+    const fitted = await Promise.all(
+      validation.suggestion.variants.map((variant) => fitVariantLength(provider, variant, maxLength))
+    );
+    const variants = fitted.map((result) => result.variant);
+    const [best] = variants as [SuggestionVariant, ...SuggestionVariant[]];
+    for (const result of fitted) {
+      usage = addUsage(usage, result.usage);
+    }
+
+    return {
+      suggestion: {
+        ...validation.suggestion,
+        suggestedMessage: best.suggestedMessage,
+        variants,
+        maxLength,
+      },
+      usage,
+      provider: provider.name,
+      model: provider.model,
+      fallbackFrom,
+      repaired: outcome === 'repaired',
+      promptLength: prompt.systemInstruction.length + transcript.length,
+    };
+  }
+
+  console.warn('[Suggestion] No model available, using rule-based fallback', { fallbackFrom });
+
+  return {
+    suggestion: { ...buildFallbackSuggestion({ ...promptInput, maxLength }), maxLength },
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    provider: FALLBACK_PROVIDER,
+    model: FALLBACK_MODEL,
+    fallbackFrom,
+    repaired: false,
+    promptLength: 0,
+  };
+}
+
+/**
+ * Metadata for the `suggestion_generated` action, shared by the inline route and the worker so
+ * analytics see the same fields whichever path served the request.
+ */
+export function suggestionGeneratedMetadata(
+  generated: GeneratedSuggestion,
+  context: {
+    jobId: string;
+    threadId: string;
+    conversationGoal: string;
+    presetId?: string;
+    messageCount: number;
+    durationMs: number;
+  }
+): Record<string, unknown> {
+  const { suggestion, usage } = generated;
+
+  return {
+    job_id: context.jobId,
+    thread_id: context.threadId,
+    conversation_goal: context.conversationGoal,
+    preset_id: context.presetId ?? null,
+    message_count: context.messageCount,
+    intent_score: suggestion.intentScore,
+    next_action: suggestion.nextAction,
+    variant_count: suggestion.variants.length,
+    provider: generated.provider,
+    model: generated.model,
+    fallback_from: generated.fallbackFrom,
+    output_repaired: generated.repaired,
+    tokens_used: usage.totalTokens,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    duration_ms: context.durationMs,
+    prompt_length: generated.promptLength,
+  };
+}
+
+const NO_USAGE: CompletionUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+/**
+ * Shortens a variant's message to `maxLength`: whole sentences when that keeps most of it,
+ * otherwise a condense request to the model, and a word-boundary cut if that fails or is
+ * still too long. Condensing is best effort and never fails the suggestion.
+ */
+async function fitVariantLength(
+  provider: SuggestionProvider,
+  variant: SuggestionVariant,
+  maxLength: number
+): Promise<{ variant: SuggestionVariant; usage: CompletionUsage }> {
+  const sentences = trimToSentence(variant.suggestedMessage, maxLength);
+  if (sentences !== null) {
+    return { variant: { ...variant, suggestedMessage: sentences }, usage: NO_USAGE };
+  }
+
+  try {
+    const condensed = await provider.complete({
+      system: buildCondensePrompt(maxLength),
+      userMessage: variant.suggestedMessage,
+      maxTokens: Math.ceil(maxLength / 2),
+      temperature: 0,
+    });
+    const text = condensed.content.trim().replace(/^["']|["']$/g, '');
+
+    return {
+      variant: {
+        ...variant,
+        suggestedMessage: text.length > 0 && text.length <= maxLength
+          ? text
+          : truncateAtWord(text || variant.suggestedMessage, maxLength),
+      },
+      usage: condensed.usage,
+    };
+  } catch (error) {
+    console.warn('[Suggestion] Condense request failed, truncating', {
+      provider: provider.name,
+      model: provider.model,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      variant: { ...variant, suggestedMessage: truncateAtWord(variant.suggestedMessage, maxLength) },
+      usage: NO_USAGE,
+    };
+  }
+}
+
+function addUsage(a: CompletionUsage, b: CompletionUsage): CompletionUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+// Metrics must not fail the suggestion.
+async function trackOutputRepair(conversationGoal: string, outcome: OutputRepairOutcome): Promise<void> {
+  try {
+    await recordOutputRepair(conversationGoal, outcome);
+  } catch (error) {
+    console.error('[Suggestion] Failed to record output repair metric', error);
+  }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from 'node:crypto';
 import jwt, { type SignOptions } from 'jsonwebtoken';
 
 // Load environment variables in development only
@@ -26,22 +27,34 @@ interface TokenPayload {
   accountId: string;
   userId: string;
   type: 'access' | 'refresh';
+  // Absent on tokens issued before sessions were tracked; authMiddleware rejects those
+  sessionId?: string;
 }
 
-export function signAccessToken(accountId: string, userId: string): string {
+export function signAccessToken(accountId: string, userId: string, sessionId: string): string {
   return jwt.sign(
-    { accountId, userId, type: 'access' } as TokenPayload,
+    { accountId, userId, type: 'access', sessionId } as TokenPayload,
     JWT_SECRET_STR,
     { expiresIn: ACCESS_EXPIRY, algorithm: 'HS256' }
   );
 }
 
-export function signRefreshToken(accountId: string, userId: string): string {
-  return jwt.sign(
-    { accountId, userId, type: 'refresh' } as TokenPayload,
+/**
+ * Refresh tokens get a random jti so every rotation produces a distinct token (and hash).
+ */
+export function signRefreshToken(
+  accountId: string,
+  userId: string,
+  sessionId: string
+): { token: string; expiresAt: Date } {
+  const token = jwt.sign(
+    { accountId, userId, type: 'refresh', sessionId } as TokenPayload,
     JWT_SECRET_STR,
-    { expiresIn: REFRESH_EXPIRY, algorithm: 'HS256' }
+    { expiresIn: REFRESH_EXPIRY, algorithm: 'HS256', jwtid: randomUUID() }
   );
+  const { exp } = jwt.decode(token) as { exp: number };
+
+  return { token, expiresAt: new Date(exp * 1000) };
 }
 
 export function verifyToken(token: string): TokenPayload {
@@ -7,6 +7,7 @@ import {
   jsonb,
   numeric,
   boolean,
+  integer,
   index,
   uniqueIndex,
 } from 'drizzle-orm/pg-core';
@@ -20,7 +21,16 @@ export const accounts = pgTable('accounts', {
   plan_tier: planTierEnum('plan_tier').notNull().default('free'),
   plan: planTierEnum('plan').notNull().default('free'),
   plan_expires_at: timestamp('plan_expires_at'),
+  // Set while the plan is a free trial; trials end here without a grace period
+  trial_ends_at: timestamp('trial_ends_at'),
+  // True while a billing subscription will renew the plan before plan_expires_at
+  plan_auto_renews: boolean('plan_auto_renews').notNull().default(false),
+  // Creation time of the newest billing event applied; older events arriving later are ignored
+  billing_event_at: timestamp('billing_event_at'),
   status: statusEnum('status').notNull().default('active'),
+  // Admin overrides of the plan's daily request limits; null uses the plan default
+  daily_request_limit: integer('daily_request_limit'),
+  user_daily_request_limit: integer('user_daily_request_limit'),
   created_at: timestamp('created_at').notNull().defaultNow(),
   updated_at: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -33,13 +43,87 @@ export const users = pgTable(
       .notNull()
       .references(() => accounts.id, { onDelete: 'cascade' }),
     email: text('email'),
+    // Set once the email is confirmed with a one-time code; only verified emails link devices
+    email_verified_at: timestamp('email_verified_at'),
     device_fingerprint: text('device_fingerprint').notNull(),
+    // owner | admin | member (see USER_ROLES)
+    role: text('role').notNull().default('member'),
     created_at: timestamp('created_at').notNull().defaultNow(),
     last_seen_at: timestamp('last_seen_at'),
   },
   (table) => ({
     accountIdIdx: index('idx_users_account_id').on(table.account_id),
     deviceFingerprintIdx: uniqueIndex('idx_users_device_fingerprint').on(table.device_fingerprint),
+    emailIdx: index('idx_users_email').on(table.email),
+  })
+);
+
+export const accountInvites = pgTable(
+  'account_invites',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    account_id: uuid('account_id')
+      .notNull()
+      .references(() => accounts.id, { onDelete: 'cascade' }),
+    created_by: uuid('created_by')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    role: text('role').notNull().default('member'),
+    // sha256 of the invite token; the link itself is only shown once
+    token_hash: text('token_hash').notNull(),
+    expires_at: timestamp('expires_at').notNull(),
+    accepted_by: uuid('accepted_by').references(() => users.id, { onDelete: 'set null' }),
+    accepted_at: timestamp('accepted_at'),
+    revoked_at: timestamp('revoked_at'),
+    created_at: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    accountIdIdx: index('idx_account_invites_account_id').on(table.account_id),
+    tokenHashIdx: uniqueIndex('idx_account_invites_token_hash').on(table.token_hash),
+  })
+);
+
+// One row per login; rotated refresh tokens stay in the same session (token family).
+export const authSessions = pgTable(
+  'auth_sessions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    account_id: uuid('account_id')
+      .notNull()
+      .references(() => accounts.id, { onDelete: 'cascade' }),
+    user_id: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    ip_address: text('ip_address'),
+    user_agent: text('user_agent'),
+    created_at: timestamp('created_at').notNull().defaultNow(),
+    last_used_at: timestamp('last_used_at').notNull().defaultNow(),
+    expires_at: timestamp('expires_at').notNull(),
+    revoked_at: timestamp('revoked_at'),
+    revoked_reason: text('revoked_reason'),
+  },
+  (table) => ({
+    accountIdIdx: index('idx_auth_sessions_account_id').on(table.account_id, table.last_used_at),
+    userIdIdx: index('idx_auth_sessions_user_id').on(table.user_id),
+  })
+);
+
+export const refreshTokens = pgTable(
+  'refresh_tokens',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    session_id: uuid('session_id')
+      .notNull()
+      .references(() => authSessions.id, { onDelete: 'cascade' }),
+    // sha256 of the issued token; the token itself is never stored
+    token_hash: text('token_hash').notNull(),
+    expires_at: timestamp('expires_at').notNull(),
+    used_at: timestamp('used_at'),
+    created_at: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    tokenHashIdx: uniqueIndex('idx_refresh_tokens_token_hash').on(table.token_hash),
+    sessionIdIdx: index('idx_refresh_tokens_session_id').on(table.session_id),
   })
 );
 
@@ -55,7 +139,7 @@ export const threads = pgTable(
       .references(() => users.id, { onDelete: 'cascade' }),
     fb_thread_id: text('fb_thread_id').notNull(),
     listing_data: jsonb('listing_data'),
-    status: text('status').notNull().default('active'),
+    status: text('status').notNull().default('inquiry'),
     intent_score: numeric('intent_score', { precision: 3, scale: 2 }),
     created_at: timestamp('created_at').notNull().defaultNow(),
     updated_at: timestamp('updated_at').notNull().defaultNow(),
@@ -63,6 +147,7 @@ export const threads = pgTable(
   (table) => ({
     accountIdIdx: index('idx_threads_account_id').on(table.account_id),
     fbThreadIdIdx: uniqueIndex('idx_threads_fb_thread_id').on(table.account_id, table.fb_thread_id),
+    updatedAtIdx: index('idx_threads_account_updated').on(table.account_id, table.updated_at),
   })
 );
 
@@ -77,10 +162,17 @@ export const messages = pgTable(
     text: text('text').notNull(),
     timestamp: timestamp('timestamp').notNull(),
     was_sent_auto: boolean('was_sent_auto').notNull().default(false),
+    // 0-based order of scraped messages within the thread; null for suggestions
+    position: integer('position'),
+    // sha256 of sender + position + text for scraped messages, timestamp + text for suggestions;
+    // concurrent saves of the same transcript collide on (thread_id, content_hash)
+    content_hash: text('content_hash').notNull(),
     created_at: timestamp('created_at').notNull().defaultNow(),
   },
   (table) => ({
     threadIdIdx: index('idx_messages_thread_id').on(table.thread_id, table.timestamp),
+    threadPositionIdx: index('idx_messages_thread_position').on(table.thread_id, table.position),
+    contentHashIdx: uniqueIndex('idx_messages_thread_content_hash').on(table.thread_id, table.content_hash),
   })
 );
 
@@ -124,10 +216,74 @@ export const accountSettings = pgTable(
   })
 );
 
+// Named admin API keys; the key itself is only shown once when minted (see scripts/admin-keys.ts).
+export const adminApiKeys = pgTable(
+  'admin_api_keys',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    // The person or system the key belongs to; recorded as the actor in the audit log
+    name: text('name').notNull(),
+    // Public part of the key, used to find the row before comparing hashes
+    key_prefix: text('key_prefix').notNull(),
+    // sha256 of the full key
+    key_hash: text('key_hash').notNull(),
+    // AdminScope[]
+    scopes: jsonb('scopes').notNull().default([]),
+    expires_at: timestamp('expires_at'),
+    last_used_at: timestamp('last_used_at'),
+    revoked_at: timestamp('revoked_at'),
+    created_at: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    keyPrefixIdx: uniqueIndex('idx_admin_api_keys_key_prefix').on(table.key_prefix),
+  })
+);
+
+// Every call to the admin API; account_id has no foreign key so entries outlive merged accounts.
+export const adminAuditLog = pgTable(
+  'admin_audit_log',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    actor: text('actor').notNull(),
+    admin_key_id: uuid('admin_key_id').references(() => adminApiKeys.id, { onDelete: 'set null' }),
+    action: text('action').notNull(),
+    account_id: uuid('account_id'),
+    status_code: integer('status_code').notNull(),
+    metadata: jsonb('metadata').notNull().default({}),
+    ip_address: text('ip_address'),
+    user_agent: text('user_agent'),
+    created_at: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    accountIdIdx: index('idx_admin_audit_log_account_id').on(table.account_id, table.created_at),
+    actorIdx: index('idx_admin_audit_log_actor').on(table.actor, table.created_at),
+  })
+);
+
+// Payment provider events already applied, keyed by the provider's event id so redeliveries are no-ops.
+export const billingEvents = pgTable(
+  'billing_events',
+  {
+    id: text('id').primaryKey(),
+    type: text('type').notNull(),
+    account_id: uuid('account_id'),
+    processed_at: timestamp('processed_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    accountIdIdx: index('idx_billing_events_account_id').on(table.account_id, table.processed_at),
+  })
+);
+
 export type Account = typeof accounts.$inferSelect;
 export type NewAccount = typeof accounts.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type AccountInvite = typeof accountInvites.$inferSelect;
+export type NewAccountInvite = typeof accountInvites.$inferInsert;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type NewAuthSession = typeof authSessions.$inferInsert;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type NewRefreshToken = typeof refreshTokens.$inferInsert;
 export type Thread = typeof threads.$inferSelect;
 export type NewThread = typeof threads.$inferInsert;
 export type Message = typeof messages.$inferSelect;
@@ -136,3 +292,9 @@ export type Action = typeof actions.$inferSelect;
 export type NewAction = typeof actions.$inferInsert;
 export type AccountSetting = typeof accountSettings.$inferSelect;
 export type NewAccountSetting = typeof accountSettings.$inferInsert;
+export type BillingEvent = typeof billingEvents.$inferSelect;
+export type NewBillingEvent = typeof billingEvents.$inferInsert;
+export type AdminApiKey = typeof adminApiKeys.$inferSelect;
+export type NewAdminApiKey = typeof adminApiKeys.$inferInsert;
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type NewAdminAuditEntry = typeof adminAuditLog.$inferInsert;
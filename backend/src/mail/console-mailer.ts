@@ -0,0 +1,13 @@
+import type { MailMessage, Mailer } from './mailer.js';
+
+/**
+ * Development stand-in that prints messages to stdout instead of delivering them.
+ */
+export function createConsoleMailer(): Mailer {
+  return {
+    name: 'console',
+    send: async (message: MailMessage): Promise<void> => {
+      console.info(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+    },
+  };
+}
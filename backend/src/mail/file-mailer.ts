@@ -0,0 +1,18 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { MailMessage, Mailer } from './mailer.js';
+
+const DEFAULT_MAIL_FILE = 'logs/mail.jsonl';
+
+/**
+ * Development stand-in that appends one JSON line per message to a local file.
+ */
+export function createFileMailer(filePath: string = DEFAULT_MAIL_FILE): Mailer {
+  return {
+    name: 'file',
+    send: async (message: MailMessage): Promise<void> => {
+      await mkdir(dirname(filePath), { recursive: true });
+      await appendFile(filePath, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`, 'utf8');
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { createConsoleMailer } from './console-mailer.js';
+import { createFileMailer } from './file-mailer.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  /** Mailer id, e.g. `console` or `file`. */
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+let cachedMailer: Mailer | null = null;
+
+/**
+ * Returns the mailer selected by MAILER (default `console`).
+ * `file` appends each message to MAILER_FILE_PATH so local flows can read codes back.
+ */
+export function getMailer(): Mailer {
+  if (cachedMailer) {
+    return cachedMailer;
+  }
+
+  const name = (process.env.MAILER ?? 'console').trim().toLowerCase();
+
+  switch (name) {
+    case 'console':
+      cachedMailer = createConsoleMailer();
+      break;
+    case 'file':
+      cachedMailer = createFileMailer(process.env.MAILER_FILE_PATH || undefined);
+      break;
+    default:
+      throw new Error(`Unknown MAILER: ${name}`);
+  }
+
+  return cachedMailer;
+}
@@ -0,0 +1,44 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { authenticateAdminKey, type AdminIdentity } from '../services/admin-keys.js';
+import type { AdminScope } from '../types/index.js';
+
+type AdminRequest = FastifyRequest & {
+  admin?: AdminIdentity;
+};
+
+/**
+ * preHandler for admin routes: resolves the x-admin-key header to a named admin key
+ * and requires it to carry `scope`. Sets `request.admin`.
+ */
+export function requireAdminScope(
+  scope: AdminScope
+): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
+  return async function adminAuthMiddleware(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const providedKey = request.headers['x-admin-key'];
+    const admin = typeof providedKey === 'string' ? await authenticateAdminKey(providedKey) : null;
+
+    if (!admin) {
+      request.log.warn({ requestId: request.id }, 'Admin key rejected');
+      return void reply.code(403).send({
+        error: 'ADMIN_UNAUTHORIZED',
+        code: 'ADMIN_UNAUTHORIZED',
+        message: 'Admin access denied.',
+        statusCode: 403,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    (request as AdminRequest).admin = admin;
+
+    if (!admin.scopes.includes(scope)) {
+      request.log.warn({ requestId: request.id, adminKeyId: admin.keyId, scope }, 'Admin scope missing');
+      return void reply.code(403).send({
+        error: 'ADMIN_SCOPE_REQUIRED',
+        code: 'ADMIN_SCOPE_REQUIRED',
+        message: `This admin key does not have the ${scope} scope.`,
+        statusCode: 403,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+}
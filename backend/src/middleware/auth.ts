@@ -1,9 +1,12 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { verifyToken } from '../auth/jwt.js';
+import { getAccountStatus, getBlockedStatusError } from '../services/account-status.js';
+import { isSessionRevoked } from '../services/sessions.js';
 
 type AuthedRequest = FastifyRequest & {
   accountId?: string;
   userId?: string;
+  sessionId?: string;
 };
 
 export async function authMiddleware(
@@ -34,8 +37,39 @@ export async function authMiddleware(
       });
     }
 
+    // Tokens issued before sessions were tracked cannot be revoked, so they are no longer accepted;
+    // the client signs in again (or refreshes) to get a session-bound token.
+    if (!payload.sessionId || await isSessionRevoked(payload.sessionId)) {
+      return void reply.code(401).send({
+        error: 'Unauthorized',
+        code: 'SESSION_REVOKED',
+        message: 'Session has been revoked',
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const status = await getAccountStatus(payload.accountId);
+    if (!status) {
+      return void reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Account not found',
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const blocked = getBlockedStatusError(status);
+    if (blocked) {
+      return void reply.code(blocked.statusCode).send({
+        ...blocked,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     (request as AuthedRequest).accountId = payload.accountId;
     (request as AuthedRequest).userId = payload.userId;
+    (request as AuthedRequest).sessionId = payload.sessionId;
   } catch {
     return void reply.code(401).send({
       error: 'Unauthorized',
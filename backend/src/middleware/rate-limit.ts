@@ -1,22 +1,46 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { redis } from '../redis/client.js';
+import { getEntitlements } from '../services/entitlements.js';
 import { getAccountPlan } from '../services/plan.js';
-
-const LIMITS = {
-  free: parseInt(process.env.RATE_LIMIT_FREE_DAILY || '15', 10),
-  pro: parseInt(process.env.RATE_LIMIT_PRO_DAILY || '100', 10),
-  enterprise: parseInt(process.env.RATE_LIMIT_ENTERPRISE_DAILY || '1000', 10),
-} as const;
+import { dailyRequestKey, dailyUserRequestKey } from '../services/usage.js';
 
 type AuthedRequest = FastifyRequest & {
   accountId?: string;
+  userId?: string;
 };
 
+/**
+ * Counts one request against a counter that expires at the end of the UTC day.
+ */
+async function incrementDailyCounter(key: string): Promise<{ count: number; resetAt: number }> {
+  const count = await redis.incr(key);
+
+  let resetAt = 0;
+  if (count === 1) {
+    const now = new Date();
+    const endOfDayUtc = new Date(Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate() + 1
+    ));
+    const ttlSeconds = Math.max(1, Math.floor((endOfDayUtc.getTime() - now.getTime()) / 1000));
+    await redis.expire(key, ttlSeconds);
+    resetAt = endOfDayUtc.getTime();
+  } else {
+    const ttlSeconds = await redis.ttl(key);
+    if (ttlSeconds > 0) {
+      resetAt = Date.now() + ttlSeconds * 1000;
+    }
+  }
+
+  return { count, resetAt };
+}
+
 export async function rateLimitMiddleware(
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> {
-  const accountId = (request as AuthedRequest).accountId;
+  const { accountId, userId } = request as AuthedRequest;
 
   if (!accountId) {
     return void reply.code(401).send({
@@ -29,29 +53,26 @@ export async function rateLimitMiddleware(
 
   try {
     // Resolve plan server-side to enforce paid-tier rate limits.
-    const { plan } = await getAccountPlan(accountId);
-    const limit = LIMITS[plan];
-    const dateKey = new Date().toISOString().slice(0, 10);
-    const key = `rate_limit:${accountId}:${dateKey}`;
+    const accountPlan = await getAccountPlan(accountId);
+    const { plan } = accountPlan;
+    const { dailyRequests: limit, userDailyRequests: userLimit } = getEntitlements(accountPlan);
+    const { count, resetAt } = await incrementDailyCounter(dailyRequestKey(accountId));
+
+    // Each user also has a daily share inside the account's pool.
+    const userCounter = userId
+      ? await incrementDailyCounter(dailyUserRequestKey(accountId, userId))
+      : null;
 
-    const count = await redis.incr(key);
+    const remaining = Math.max(0, limit - count);
+    const userRemaining = userCounter ? Math.max(0, userLimit - userCounter.count) : remaining;
 
-    let resetAt = 0;
-    if (count === 1) {
-      const now = new Date();
-      const endOfDayUtc = new Date(Date.UTC(
-        now.getUTCFullYear(),
-        now.getUTCMonth(),
-        now.getUTCDate() + 1
-      ));
-      const ttlSeconds = Math.max(1, Math.floor((endOfDayUtc.getTime() - now.getTime()) / 1000));
-      await redis.expire(key, ttlSeconds);
-      resetAt = endOfDayUtc.getTime();
-    } else {
-      const ttlSeconds = await redis.ttl(key);
-      if (ttlSeconds > 0) {
-        resetAt = Date.now() + ttlSeconds * 1000;
-      }
+    // Sent on 429s too so clients can show when the limit resets.
+    // Headers describe whichever limit is tighter for this user.
+    const userIsTighter = userRemaining < remaining;
+    reply.header('X-RateLimit-Limit', (userIsTighter ? userLimit : limit).toString());
+    reply.header('X-RateLimit-Remaining', Math.min(remaining, userRemaining).toString());
+    if (resetAt > 0) {
+      reply.header('X-RateLimit-Reset', resetAt.toString());
     }
 
     if (count > limit) {
@@ -68,10 +89,18 @@ export async function rateLimitMiddleware(
       });
     }
 
-    reply.header('X-RateLimit-Limit', limit.toString());
-    reply.header('X-RateLimit-Remaining', Math.max(0, limit - count).toString());
-    if (resetAt > 0) {
-      reply.header('X-RateLimit-Reset', resetAt.toString());
+    if (userCounter && userCounter.count > userLimit) {
+      request.log.warn(
+        { requestId: request.id, accountId, userId, plan, count: userCounter.count, limit: userLimit },
+        'User rate limit exceeded'
+      );
+      return void reply.code(429).send({
+        error: 'RATE_LIMIT_EXCEEDED',
+        code: 'USER_RATE_LIMIT_EXCEEDED',
+        message: `Your daily share of ${userLimit} requests on this account is used up. Please try again tomorrow.`,
+        statusCode: 429,
+        timestamp: new Date().toISOString(),
+      });
     }
 
   } catch (error) {
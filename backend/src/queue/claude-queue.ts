@@ -8,6 +8,8 @@ export interface ClaudeJobPayload {
   accountId: string;
   userId: string;
   threadId: string;
+  // Primary key of the stored thread row (threadId is the extension's own id)
+  threadRecordId: string;
   fbThreadId: string;
   listingTitle: string | null;
   listingPrice: string | null;
@@ -17,6 +19,7 @@ export interface ClaudeJobPayload {
   persistentContext?: string;
   customInstructions?: string;
   savedPresetId?: string;
+  variantCount?: number;
   messages: Array<{
     senderId: string;
     text: string;
@@ -0,0 +1,97 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { authMiddleware } from '../middleware/auth.js';
+import { PLAN_GRACE_PERIOD_DAYS, getAccountPlan } from '../services/plan.js';
+import { getEntitlements } from '../services/entitlements.js';
+
+type AuthedRequest = FastifyRequest & {
+  accountId?: string;
+  userId?: string;
+};
+
+function sendUnauthorized(reply: FastifyReply): FastifyReply {
+  return reply.code(401).send({
+    error: 'Unauthorized',
+    message: 'Missing auth context',
+    statusCode: 401,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendAccountNotFound(reply: FastifyReply): FastifyReply {
+  return reply.code(404).send({
+    error: 'Not Found',
+    message: 'Account not found',
+    statusCode: 404,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function toIso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+export async function accountRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get(
+    '/account',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const accountPlan = await getAccountPlan(accountId);
+
+        return reply.send({
+          account: {
+            id: accountId,
+            status: accountPlan.status,
+            plan: accountPlan.plan,
+            planStatus: accountPlan.planStatus,
+            trialEndsAt: toIso(accountPlan.trialEndsAt),
+            planExpiresAt: toIso(accountPlan.planExpiresAt),
+            graceEndsAt: toIso(accountPlan.graceEndsAt),
+            gracePeriodDays: PLAN_GRACE_PERIOD_DAYS,
+            autoRenews: accountPlan.autoRenews,
+          },
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Account not found') {
+          return sendAccountNotFound(reply);
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Read-only: lets the extension disable controls the plan does not include.
+  fastify.get(
+    '/account/entitlements',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const accountPlan = await getAccountPlan(accountId);
+
+        return reply.send({
+          plan: accountPlan.plan,
+          entitlements: getEntitlements(accountPlan),
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Account not found') {
+          return sendAccountNotFound(reply);
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -3,45 +3,192 @@ import { z } from 'zod';
 import { db } from '../db/client.js';
 import { accounts } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
+import { requireAdminScope } from '../middleware/admin-auth.js';
+import { setAccountStatus } from '../services/account-status.js';
+import {
+  getAdminAccount,
+  getAdminAccountUsage,
+  listAccountActions,
+  resetDailyRequestCounters,
+  revokeAccountTokens,
+  searchAccounts,
+  setRateLimitOverrides,
+} from '../services/admin.js';
+import { listAdminAudit, recordAdminAudit } from '../services/admin-audit.js';
+import { getAdminKeyPrefix, type AdminIdentity } from '../services/admin-keys.js';
+import { getAnalyticsSummary } from '../services/analytics.js';
+import { forceCircuit, listCircuits } from '../services/circuit-breaker.js';
+import { getOutputRepairStats } from '../services/output-metrics.js';
+import { listThreads } from '../services/threads.js';
 
 const PlanSchema = z.object({
   accountId: z.string().uuid(),
   plan: z.enum(['free', 'pro', 'enterprise']),
   planExpiresAt: z.string().datetime().nullable().optional(),
+  // Makes the plan a free trial that ends at this time, without a grace period
+  trialEndsAt: z.string().datetime().nullable().optional(),
 });
 
+const AccountStatusSchema = z.object({
+  status: z.enum(['active', 'suspended', 'churned']),
+  reason: z.string().trim().min(1).max(500),
+});
+
+const AccountParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const AccountSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+});
+
+const AccountThreadsQuerySchema = z.object({
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+const AccountActionsQuerySchema = z.object({
+  type: z.string().max(100).optional(),
+  before: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const RateLimitOverridesSchema = z.object({
+  dailyRequests: z.number().int().min(0).max(1_000_000).nullable(),
+  userDailyRequests: z.number().int().min(0).max(1_000_000).nullable(),
+});
+
+const AuditQuerySchema = z.object({
+  accountId: z.string().uuid().optional(),
+  actor: z.string().max(200).optional(),
+  before: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const AnalyticsQuerySchema = z
+  .object({
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  })
+  .transform((query) => {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    return { from, to };
+  })
+  .refine((range) => range.from < range.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+const CircuitParamsSchema = z.object({
+  provider: z.string().min(1).max(50),
+  model: z.string().min(1).max(200),
+});
+
+// `open` holds the circuit open until it is closed again; `closed` resets it.
+const ForceCircuitSchema = z.object({
+  state: z.enum(['open', 'closed']),
+});
+
+const OutputRepairQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+const ADMIN_ERRORS: Record<string, { statusCode: number; error: string; message: string }> = {
+  ACCOUNT_NOT_FOUND: { statusCode: 404, error: 'Not Found', message: 'Account not found' },
+  INVALID_CURSOR: { statusCode: 400, error: 'Bad Request', message: 'Invalid cursor' },
+};
+
+type AdminRequest = FastifyRequest & {
+  admin?: AdminIdentity;
+};
+
+function sendAdminError(reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof z.ZodError) {
+    const issue = error.issues[0];
+    const field = issue?.path.join('.') || 'request';
+    return reply.code(400).send({
+      error: 'Validation error',
+      message: issue ? `${field}: ${issue.message}` : 'Invalid request',
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const known = error instanceof Error ? ADMIN_ERRORS[error.message] : undefined;
+  if (error instanceof Error && known) {
+    return reply.code(known.statusCode).send({
+      error: known.error,
+      code: error.message,
+      message: known.message,
+      statusCode: known.statusCode,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  throw error;
+}
+
+/**
+ * Who to record for an admin call. Calls rejected before authentication are recorded
+ * against the prefix of the key they presented, if any.
+ */
+function auditActor(request: FastifyRequest): string {
+  const { admin } = request as AdminRequest;
+  if (admin) {
+    return admin.name;
+  }
+
+  const presented = request.headers['x-admin-key'];
+  const prefix = typeof presented === 'string' ? getAdminKeyPrefix(presented) : null;
+  return prefix ? `unverified:adm_${prefix}` : 'unknown';
+}
+
+/**
+ * The account an admin call was about, taken from the `:id` param or the body's accountId.
+ */
+function auditAccountId(request: FastifyRequest): string | null {
+  const params = (request.params ?? {}) as Record<string, unknown>;
+  const body = (request.body ?? {}) as Record<string, unknown>;
+  const candidate = z.string().uuid().safeParse(params.id ?? body.accountId);
+  return candidate.success ? candidate.data : null;
+}
+
 export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
+  // Every admin call is audited, including rejected ones.
+  fastify.addHook('onResponse', async (request, reply) => {
+    try {
+      await recordAdminAudit({
+        actor: auditActor(request),
+        admin_key_id: (request as AdminRequest).admin?.keyId ?? null,
+        action: `${request.method} ${request.routeOptions.url}`,
+        account_id: auditAccountId(request),
+        status_code: reply.statusCode,
+        metadata: {
+          request_id: request.id,
+          params: request.params ?? {},
+          query: request.query ?? {},
+          ...(request.body !== undefined ? { body: request.body } : {}),
+        },
+        ip_address: request.ip,
+        user_agent: request.headers['user-agent'] ?? null,
+      });
+    } catch (error) {
+      request.log.error({ error, requestId: request.id }, 'Failed to write admin audit entry');
+    }
+  });
+
   fastify.post(
     '/admin/plan',
+    {
+      preHandler: [requireAdminScope('plans:write')],
+    },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const adminKey = process.env.ADMIN_API_KEY;
       const requestId = request.id;
 
-      if (!adminKey) {
-        request.log.error({ requestId }, 'ADMIN_API_KEY missing');
-        return reply.code(500).send({
-          error: 'ADMIN_NOT_CONFIGURED',
-          code: 'ADMIN_NOT_CONFIGURED',
-          message: 'Admin access is not configured.',
-          statusCode: 500,
-          timestamp: new Date().toISOString(),
-        });
-      }
-
-      const providedKey = request.headers['x-admin-key'];
-      if (providedKey !== adminKey) {
-        request.log.warn({ requestId }, 'Admin key rejected');
-        return reply.code(403).send({
-          error: 'ADMIN_UNAUTHORIZED',
-          code: 'ADMIN_UNAUTHORIZED',
-          message: 'Admin access denied.',
-          statusCode: 403,
-          timestamp: new Date().toISOString(),
-        });
-      }
-
       const payload = PlanSchema.parse(request.body);
       const expiresAt = payload.planExpiresAt ? new Date(payload.planExpiresAt) : null;
+      const trialEndsAt = payload.trialEndsAt ? new Date(payload.trialEndsAt) : null;
 
       await db
         .update(accounts)
@@ -49,6 +196,8 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
           plan: payload.plan,
           plan_tier: payload.plan,
           plan_expires_at: expiresAt,
+          trial_ends_at: trialEndsAt,
+          plan_auto_renews: false,
           updated_at: new Date(),
         })
         .where(eq(accounts.id, payload.accountId));
@@ -63,7 +212,261 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
         accountId: payload.accountId,
         plan: payload.plan,
         planExpiresAt: expiresAt ? expiresAt.toISOString() : null,
+        trialEndsAt: trialEndsAt ? trialEndsAt.toISOString() : null,
       });
     }
   );
+
+  fastify.post(
+    '/admin/accounts/:id/status',
+    {
+      preHandler: [requireAdminScope('accounts:suspend')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { admin } = request as AdminRequest;
+
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const body = AccountStatusSchema.parse(request.body);
+        const result = await setAccountStatus(id, body.status, body.reason, admin?.name ?? 'unknown');
+
+        request.log.info(
+          { requestId: request.id, accountId: id, ...result },
+          'Account status updated'
+        );
+
+        return reply.send({ success: true, accountId: id, ...result });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/accounts',
+    {
+      preHandler: [requireAdminScope('accounts:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const query = AccountSearchQuerySchema.parse(request.query);
+        const results = await searchAccounts(query.q);
+        return reply.send({ accounts: results });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/accounts/:id',
+    {
+      preHandler: [requireAdminScope('accounts:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const account = await getAdminAccount(id);
+        if (!account) {
+          throw new Error('ACCOUNT_NOT_FOUND');
+        }
+        return reply.send({ account });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/accounts/:id/threads',
+    {
+      preHandler: [requireAdminScope('accounts:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const query = AccountThreadsQuerySchema.parse(request.query);
+        const page = await listThreads(id, { cursor: query.cursor, limit: query.limit });
+        return reply.send(page);
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/accounts/:id/usage',
+    {
+      preHandler: [requireAdminScope('accounts:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const usage = await getAdminAccountUsage(id);
+        return reply.send(usage);
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/accounts/:id/actions',
+    {
+      preHandler: [requireAdminScope('accounts:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const query = AccountActionsQuerySchema.parse(request.query);
+        const entries = await listAccountActions(id, {
+          limit: query.limit,
+          actionType: query.type,
+          before: query.before,
+        });
+        return reply.send({ actions: entries });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.put(
+    '/admin/accounts/:id/rate-limits',
+    {
+      preHandler: [requireAdminScope('plans:write')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const body = RateLimitOverridesSchema.parse(request.body);
+        const result = await setRateLimitOverrides(id, body);
+
+        request.log.info(
+          { requestId: request.id, accountId: id, ...result },
+          'Rate limit overrides updated'
+        );
+
+        return reply.send({ success: true, accountId: id, limitOverrides: result.current });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.post(
+    '/admin/accounts/:id/rate-limits/reset',
+    {
+      preHandler: [requireAdminScope('plans:write')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const cleared = await resetDailyRequestCounters(id);
+
+        request.log.info({ requestId: request.id, accountId: id, cleared }, 'Daily request counters reset');
+        return reply.send({ success: true, accountId: id, cleared });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.post(
+    '/admin/accounts/:id/sessions/revoke',
+    {
+      preHandler: [requireAdminScope('accounts:suspend')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const revoked = await revokeAccountTokens(id);
+
+        request.log.info({ requestId: request.id, accountId: id, revoked }, 'Account sessions revoked');
+        return reply.send({ success: true, accountId: id, revoked });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/accounts/:id/analytics',
+    {
+      preHandler: [requireAdminScope('analytics:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = AccountParamsSchema.parse(request.params);
+        const range = AnalyticsQuerySchema.parse(request.query);
+        const summary = await getAnalyticsSummary(id, range);
+        return reply.send(summary);
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/audit',
+    {
+      preHandler: [requireAdminScope('accounts:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const query = AuditQuerySchema.parse(request.query);
+        const entries = await listAdminAudit(query);
+        return reply.send({ entries });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  // How often model output needed a repair round-trip, per conversation goal, across all accounts.
+  fastify.get(
+    '/admin/metrics/output-repairs',
+    {
+      preHandler: [requireAdminScope('analytics:read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { days } = OutputRepairQuerySchema.parse(request.query);
+        const goals = await getOutputRepairStats(days);
+        return reply.send({ days, goals });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/admin/circuits',
+    {
+      preHandler: [requireAdminScope('circuits:read')],
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      const circuits = await listCircuits();
+      return reply.send({ circuits });
+    }
+  );
+
+  fastify.post(
+    '/admin/circuits/:provider/:model',
+    {
+      preHandler: [requireAdminScope('circuits:write')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { provider, model } = CircuitParamsSchema.parse(request.params);
+        const { state } = ForceCircuitSchema.parse(request.body);
+        const circuit = await forceCircuit(provider, model, state);
+
+        request.log.warn({ requestId: request.id, provider, model, state }, 'Circuit forced by admin');
+        return reply.send({ success: true, circuit });
+      } catch (error) {
+        return sendAdminError(reply, error);
+      }
+    }
+  );
 }
@@ -0,0 +1,68 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { getAnalyticsSummary } from '../services/analytics.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SummaryQuerySchema = z
+  .object({
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  })
+  .transform((query) => {
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+    return { from, to };
+  })
+  .refine((range) => range.from < range.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  })
+  .refine((range) => range.to.getTime() - range.from.getTime() <= MAX_RANGE_DAYS * DAY_MS, {
+    message: `Range cannot exceed ${MAX_RANGE_DAYS} days`,
+    path: ['from'],
+  });
+
+type AuthedRequest = FastifyRequest & {
+  accountId?: string;
+  userId?: string;
+};
+
+export async function analyticsRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get(
+    '/analytics/summary',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+
+      if (!accountId) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Missing auth context',
+          statusCode: 401,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const parsed = SummaryQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        const field = issue?.path.join('.') || 'query';
+        return reply.code(400).send({
+          error: 'Validation error',
+          message: issue ? `${field}: ${issue.message}` : 'Invalid request',
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const summary = await getAnalyticsSummary(accountId, parsed.data);
+      return reply.send(summary);
+    }
+  );
+}
@@ -3,7 +3,17 @@ import { z } from 'zod';
 import { db } from '../db/client.js';
 import { users, accounts, actions } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
-import { signAccessToken, signRefreshToken, verifyToken } from '../auth/jwt.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { getBlockedStatusError } from '../services/account-status.js';
+import { startEmailLink, verifyEmailLink } from '../services/device-linking.js';
+import { getUserRole, hasRole } from '../services/team.js';
+import {
+  createSession,
+  listSessions,
+  logoutSession,
+  revokeAccountSession,
+  rotateRefreshToken,
+} from '../services/sessions.js';
 
 const LoginSchema = z.object({
   deviceFingerprint: z.string().min(10),
@@ -14,6 +24,87 @@ const RefreshSchema = z.object({
   refreshToken: z.string(),
 });
 
+const LinkEmailSchema = z.object({
+  email: z.string().email().max(320),
+});
+
+const VerifyLinkSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+const SessionParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const AUTH_ERRORS: Record<string, { statusCode: number; error: string; message: string }> = {
+  INVALID_REFRESH_TOKEN: { statusCode: 401, error: 'Unauthorized', message: 'Invalid refresh token' },
+  REFRESH_TOKEN_REUSED: { statusCode: 401, error: 'Unauthorized', message: 'Refresh token was already used; session revoked' },
+  SESSION_REVOKED: { statusCode: 401, error: 'Unauthorized', message: 'Session has been revoked' },
+  SESSION_NOT_FOUND: { statusCode: 404, error: 'Not Found', message: 'Session not found' },
+  LINK_CODE_COOLDOWN: { statusCode: 429, error: 'Too Many Requests', message: 'Wait a minute before requesting another code' },
+  LINK_CODE_EXPIRED: { statusCode: 400, error: 'Validation error', message: 'code: Code expired; request a new one' },
+  LINK_CODE_INVALID: { statusCode: 400, error: 'Validation error', message: 'code: Incorrect code' },
+  LINK_CODE_ATTEMPTS_EXCEEDED: { statusCode: 400, error: 'Validation error', message: 'code: Too many attempts; request a new code' },
+  SEAT_LIMIT_REACHED: {
+    statusCode: 409,
+    error: 'Conflict',
+    message: 'The account has no free seats for another person',
+  },
+  ACCOUNT_MERGE_CONFLICT: {
+    statusCode: 409,
+    error: 'Conflict',
+    message: 'This device is on a paid plan and cannot be merged into another account',
+  },
+};
+
+type AuthedRequest = FastifyRequest & {
+  accountId?: string;
+  userId?: string;
+  sessionId?: string;
+};
+
+/**
+ * Members see and revoke only their own sessions; admins and owners manage the whole account's.
+ * Returns the user id to scope by, or null for the whole account.
+ */
+async function sessionScope(accountId: string, userId: string): Promise<string | null> {
+  const role = await getUserRole(accountId, userId);
+  return role && hasRole(role, 'admin') ? null : userId;
+}
+
+function sendAuthError(reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof z.ZodError) {
+    return reply.code(400).send({
+      error: 'Validation error',
+      message: error.issues[0]?.message ?? 'Invalid request',
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const known = error instanceof Error ? AUTH_ERRORS[error.message] : undefined;
+  if (error instanceof Error && known) {
+    return reply.code(known.statusCode).send({
+      error: known.error,
+      code: error.message,
+      message: known.message,
+      statusCode: known.statusCode,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  throw error;
+}
+
+function sendUnauthorized(reply: FastifyReply): FastifyReply {
+  return reply.code(401).send({
+    error: 'Unauthorized',
+    message: 'Missing auth context',
+    statusCode: 401,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 export async function authRoutes(fastify: FastifyInstance): Promise<void> {
   fastify.post('/auth/login', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -40,28 +131,44 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
             account_id: newAccount.id,
             device_fingerprint: body.deviceFingerprint,
             email: body.email ?? null,
+            role: 'owner',
           })
           .returning();
 
         request.log.info({ userId: user.id, accountId: newAccount.id }, 'New user created');
       }
 
+      const [account] = await db
+        .select({ status: accounts.status })
+        .from(accounts)
+        .where(eq(accounts.id, user.account_id))
+        .limit(1);
+      const blocked = account ? getBlockedStatusError(account.status) : null;
+      if (blocked) {
+        return reply.code(blocked.statusCode).send({
+          ...blocked,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Update last seen
       await db
         .update(users)
         .set({ last_seen_at: new Date() })
         .where(eq(users.id, user.id));
 
-      // Generate tokens
-      const accessToken = signAccessToken(user.account_id, user.id);
-      const refreshToken = signRefreshToken(user.account_id, user.id);
+      // Start a session and generate tokens
+      const { sessionId, accessToken, refreshToken } = await createSession(user.account_id, user.id, {
+        ipAddress: request.ip,
+        userAgent: request.headers['user-agent'] ?? null,
+      });
 
       // Log action
       await db.insert(actions).values({
         account_id: user.account_id,
         user_id: user.id,
         action_type: 'login',
-        metadata: { device_fingerprint: body.deviceFingerprint },
+        metadata: { device_fingerprint: body.deviceFingerprint, session_id: sessionId },
         ip_address: request.ip,
         user_agent: request.headers['user-agent'] ?? null,
       });
@@ -71,6 +178,7 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
         refreshToken,
         accountId: user.account_id,
         userId: user.id,
+        sessionId,
       });
 
     } catch (error) {
@@ -90,37 +198,125 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
     try {
       const body = RefreshSchema.parse(request.body);
 
-      const payload = verifyToken(body.refreshToken);
+      const { accessToken, refreshToken } = await rotateRefreshToken(body.refreshToken, {
+        ipAddress: request.ip,
+        userAgent: request.headers['user-agent'] ?? null,
+      });
 
-      if (payload.type !== 'refresh') {
-        return reply.code(401).send({
-          error: 'Unauthorized',
-          message: 'Invalid token type',
-          statusCode: 401,
-          timestamp: new Date().toISOString(),
-        });
+      return reply.send({ accessToken, refreshToken });
+
+    } catch (error) {
+      return sendAuthError(reply, error);
+    }
+  });
+
+  fastify.post('/auth/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = RefreshSchema.parse(request.body);
+      await logoutSession(body.refreshToken);
+      return reply.code(204).send();
+    } catch (error) {
+      return sendAuthError(reply, error);
+    }
+  });
+
+  fastify.get(
+    '/auth/sessions',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId, sessionId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
       }
 
-      const accessToken = signAccessToken(payload.accountId, payload.userId);
+      const sessions = await listSessions(accountId, sessionId ?? null, await sessionScope(accountId, userId));
+      return reply.send({ sessions });
+    }
+  );
 
-      return reply.send({ accessToken });
+  fastify.delete(
+    '/auth/sessions/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
 
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return reply.code(400).send({
-          error: 'Validation error',
-          message: error.issues[0]?.message ?? 'Invalid request',
-          statusCode: 400,
-          timestamp: new Date().toISOString(),
+      try {
+        const { id } = SessionParamsSchema.parse(request.params);
+        await revokeAccountSession(accountId, id, await sessionScope(accountId, userId));
+
+        await db.insert(actions).values({
+          account_id: accountId,
+          user_id: userId,
+          action_type: 'session_revoked',
+          metadata: { session_id: id },
+          ip_address: request.ip,
+          user_agent: request.headers['user-agent'] ?? null,
         });
+
+        return reply.code(204).send();
+      } catch (error) {
+        return sendAuthError(reply, error);
       }
+    }
+  );
 
-      return reply.code(401).send({
-        error: 'Unauthorized',
-        message: 'Token verification failed',
-        statusCode: 401,
-        timestamp: new Date().toISOString(),
-      });
+  fastify.post(
+    '/auth/link-email',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { userId } = request as AuthedRequest;
+      if (!userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const body = LinkEmailSchema.parse(request.body);
+        const challenge = await startEmailLink(userId, body.email);
+        return reply.code(202).send(challenge);
+      } catch (error) {
+        return sendAuthError(reply, error);
+      }
     }
-  });
+  );
+
+  fastify.post(
+    '/auth/link-email/verify',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const body = VerifyLinkSchema.parse(request.body);
+        const client = {
+          ipAddress: request.ip,
+          userAgent: request.headers['user-agent'] ?? null,
+        };
+        const result = await verifyEmailLink(accountId, userId, body.code, client);
+
+        if (!result.mergedAccountId) {
+          return reply.send({ ...result, userId });
+        }
+
+        // The old session was revoked with the merged account; hand back tokens for the new one.
+        const { sessionId, accessToken, refreshToken } = await createSession(result.accountId, userId, client);
+        return reply.send({ ...result, userId, sessionId, accessToken, refreshToken });
+      } catch (error) {
+        return sendAuthError(reply, error);
+      }
+    }
+  );
 }
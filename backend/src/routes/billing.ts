@@ -0,0 +1,71 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { handleBillingEvent, verifyBillingSignature } from '../services/billing.js';
+
+// Stripe-compatible event envelope; the object itself is read by the billing service.
+const BillingEventSchema = z.object({
+  id: z.string().min(1).max(255),
+  type: z.string().min(1).max(255),
+  // Unix seconds; used to drop events delivered after newer ones
+  created: z.number().int().nonnegative(),
+  data: z.object({
+    object: z.record(z.unknown()),
+  }),
+});
+
+function sendBillingError(reply: FastifyReply, statusCode: number, code: string, message: string): FastifyReply {
+  return reply.code(statusCode).send({
+    error: code,
+    code,
+    message,
+    statusCode,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function billingRoutes(fastify: FastifyInstance): Promise<void> {
+  // The signature covers the exact bytes sent, so this plugin keeps JSON bodies as raw strings.
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  fastify.post(
+    '/billing/webhook',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const requestId = request.id;
+      const secret = process.env.BILLING_WEBHOOK_SECRET;
+
+      if (!secret) {
+        request.log.error({ requestId }, 'BILLING_WEBHOOK_SECRET missing');
+        return sendBillingError(reply, 500, 'BILLING_NOT_CONFIGURED', 'Billing webhooks are not configured.');
+      }
+
+      const payload = typeof request.body === 'string' ? request.body : '';
+      const signature = request.headers['stripe-signature'];
+
+      try {
+        verifyBillingSignature(payload, typeof signature === 'string' ? signature : '', secret);
+      } catch {
+        request.log.warn({ requestId }, 'Billing webhook signature rejected');
+        return sendBillingError(reply, 400, 'BILLING_SIGNATURE_INVALID', 'Webhook signature verification failed.');
+      }
+
+      let event: z.infer<typeof BillingEventSchema>;
+      try {
+        event = BillingEventSchema.parse(JSON.parse(payload));
+      } catch {
+        return sendBillingError(reply, 400, 'BILLING_EVENT_INVALID', 'Webhook payload is not a valid event.');
+      }
+
+      const result = await handleBillingEvent(event);
+
+      if (result.status === 'ignored') {
+        request.log.warn({ requestId, eventId: event.id, eventType: event.type, ...result }, 'Billing event ignored');
+      } else {
+        request.log.info({ requestId, eventId: event.id, eventType: event.type, ...result }, 'Billing event handled');
+      }
+
+      return reply.send({ received: true, ...result });
+    }
+  );
+}
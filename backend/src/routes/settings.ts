@@ -1,13 +1,43 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { authMiddleware } from '../middleware/auth.js';
-import { db } from '../db/client.js';
-import { accountSettings } from '../db/schema.js';
 import { getAccountPlan } from '../services/plan.js';
+import { getEntitlements, type PlanEntitlements } from '../services/entitlements.js';
+import { getUserRole, hasRole } from '../services/team.js';
+import {
+  createPreset,
+  deletePreset,
+  getAccountSettings,
+  saveAccountSettings,
+  updatePreset,
+  type GoalPresetInput,
+} from '../services/account-settings.js';
+import { CONVERSATION_GOALS, PRESET_TONES } from '../types/index.js';
 
+const GoalPresetSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  baseGoal: z.enum(CONVERSATION_GOALS),
+  instructions: z.string().max(2000).nullable().optional(),
+  quickQuestion: z.string().max(200).nullable().optional(),
+  tone: z.enum(PRESET_TONES).nullable().optional(),
+  maxLength: z.number().int().min(20).max(1000).nullable().optional(),
+});
+
+// Writes must echo the preset's last seen updatedAt (optimistic concurrency).
+const UpdatePresetSchema = GoalPresetSchema.extend({
+  updatedAt: z.string().datetime(),
+});
+
+const DeletePresetQuerySchema = z.object({
+  updatedAt: z.string().datetime(),
+});
+
+// Presets are only changed through /settings/presets, which keeps their ids and checks updatedAt.
 const SettingsSchema = z.object({
-  globalInstructions: z.string().min(1).optional(),
-  goalPresets: z.array(z.record(z.unknown())).optional(),
+  globalInstructions: z.string().min(1).nullable().optional(),
+  goalPresets: z.undefined({
+    invalid_type_error: 'Presets are changed through /settings/presets',
+  }).optional(),
 });
 
 type AuthedRequest = FastifyRequest & {
@@ -15,8 +45,133 @@ type AuthedRequest = FastifyRequest & {
   userId?: string;
 };
 
+function toPresetInput(payload: z.infer<typeof GoalPresetSchema>): GoalPresetInput {
+  return {
+    name: payload.name,
+    baseGoal: payload.baseGoal,
+    instructions: payload.instructions ?? null,
+    quickQuestion: payload.quickQuestion ?? null,
+    tone: payload.tone ?? null,
+    maxLength: payload.maxLength ?? null,
+  };
+}
+
+function sendUnauthorized(reply: FastifyReply): FastifyReply {
+  return reply.code(401).send({
+    error: 'Unauthorized',
+    message: 'Missing auth context',
+    statusCode: 401,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Block settings writes for plans without the settings entitlement.
+ * Returns the account's entitlements, or null when the request was rejected.
+ */
+async function requireSettingsEntitlement(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  accountId: string
+): Promise<PlanEntitlements | null> {
+  const accountPlan = await getAccountPlan(accountId);
+  const entitlements = getEntitlements(accountPlan);
+
+  if (entitlements.settings) {
+    return entitlements;
+  }
+
+  request.log.warn(
+    { requestId: request.id, accountId, plan: accountPlan.plan },
+    'Plan upgrade required for settings'
+  );
+  await reply.code(403).send({
+    error: 'PLAN_UPGRADE_REQUIRED',
+    code: 'PLAN_UPGRADE_REQUIRED',
+    message: 'Upgrade your plan to use settings.',
+    statusCode: 403,
+    timestamp: new Date().toISOString(),
+  });
+  return null;
+}
+
+/**
+ * Shared presets and global instructions are edited by admins and owners only.
+ * Returns true when the request was rejected.
+ */
+async function rejectNonAdmin(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  accountId: string,
+  userId: string | undefined
+): Promise<boolean> {
+  const role = userId ? await getUserRole(accountId, userId) : null;
+
+  if (role && hasRole(role, 'admin')) {
+    return false;
+  }
+
+  request.log.warn(
+    { requestId: request.id, accountId, userId, role },
+    'Admin role required for settings'
+  );
+  await reply.code(403).send({
+    error: 'Forbidden',
+    code: 'FORBIDDEN_ROLE',
+    message: 'Only account admins can change shared settings.',
+    statusCode: 403,
+    timestamp: new Date().toISOString(),
+  });
+  return true;
+}
+
+function sendSettingsError(reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof z.ZodError) {
+    const issue = error.issues[0];
+    const field = issue?.path.join('.') || 'body';
+    return reply.code(400).send({
+      error: 'Validation error',
+      message: issue ? `${field}: ${issue.message}` : 'Invalid request',
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (error instanceof Error && error.message === 'PRESET_NOT_FOUND') {
+    return reply.code(404).send({
+      error: 'Not Found',
+      code: 'PRESET_NOT_FOUND',
+      message: 'Preset not found',
+      statusCode: 404,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (error instanceof Error && error.message === 'PRESET_LIMIT_REACHED') {
+    return reply.code(403).send({
+      error: 'PLAN_UPGRADE_REQUIRED',
+      code: 'PRESET_LIMIT_REACHED',
+      message: 'Your plan has no room for more presets. Delete one or upgrade your plan.',
+      statusCode: 403,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (error instanceof Error && error.message === 'PRESET_CONFLICT') {
+    return reply.code(409).send({
+      error: 'Conflict',
+      code: 'PRESET_CONFLICT',
+      message: 'Preset was changed since it was loaded. Reload it and try again.',
+      statusCode: 409,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  throw error;
+}
+
 export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.post(
+  fastify.get(
     '/settings',
     {
       preHandler: [authMiddleware],
@@ -25,59 +180,187 @@ export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
       const { accountId } = request as AuthedRequest;
 
       if (!accountId) {
-        return reply.code(401).send({
-          error: 'Unauthorized',
-          message: 'Missing auth context',
-          statusCode: 401,
-          timestamp: new Date().toISOString(),
-        });
+        return sendUnauthorized(reply);
       }
 
-      const { plan } = await getAccountPlan(accountId);
-
-      // Block settings updates for free tier accounts.
-      if (plan === 'free') {
-        request.log.warn(
-          { requestId: request.id, accountId, plan },
-          'Plan upgrade required for settings'
-        );
-        return reply.code(403).send({
-          error: 'PLAN_UPGRADE_REQUIRED',
-          code: 'PLAN_UPGRADE_REQUIRED',
-          message: 'Upgrade your plan to use settings.',
-          statusCode: 403,
-          timestamp: new Date().toISOString(),
-        });
+      const settings = await getAccountSettings(accountId);
+      return reply.send({ settings });
+    }
+  );
+
+  fastify.post(
+    '/settings',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      const entitlements = await requireSettingsEntitlement(request, reply, accountId);
+      if (!entitlements) {
+        return reply;
+      }
+
+      if (await rejectNonAdmin(request, reply, accountId, userId)) {
+        return reply;
       }
 
-      const payload = SettingsSchema.parse(request.body);
-      const now = new Date();
-
-      await db
-        .insert(accountSettings)
-        .values({
-          account_id: accountId,
-          global_instructions: payload.globalInstructions ?? null,
-          goal_presets: payload.goalPresets ?? [],
-          created_at: now,
-          updated_at: now,
-        })
-        .onConflictDoUpdate({
-          target: [accountSettings.account_id],
-          set: {
-            global_instructions: payload.globalInstructions ?? null,
-            goal_presets: payload.goalPresets ?? [],
-            updated_at: now,
-          },
+      try {
+        const payload = SettingsSchema.parse(request.body);
+        const settings = await saveAccountSettings(accountId, {
+          globalInstructions: payload.globalInstructions,
         });
 
-      return reply.send({
-        success: true,
-        settings: {
-          globalInstructions: payload.globalInstructions ?? null,
-          goalPresets: payload.goalPresets ?? [],
-        },
-      });
+        return reply.send({ success: true, settings });
+      } catch (error) {
+        return sendSettingsError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/settings/presets',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      const settings = await getAccountSettings(accountId);
+      return reply.send({ presets: settings.goalPresets });
+    }
+  );
+
+  fastify.get(
+    '/settings/presets/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+      const { id } = request.params as { id: string };
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      const settings = await getAccountSettings(accountId);
+      const preset = settings.goalPresets.find((candidate) => candidate.id === id);
+
+      if (!preset) {
+        return sendSettingsError(reply, new Error('PRESET_NOT_FOUND'));
+      }
+
+      return reply.send({ preset });
+    }
+  );
+
+  fastify.post(
+    '/settings/presets',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      const entitlements = await requireSettingsEntitlement(request, reply, accountId);
+      if (!entitlements) {
+        return reply;
+      }
+
+      if (await rejectNonAdmin(request, reply, accountId, userId)) {
+        return reply;
+      }
+
+      try {
+        const payload = GoalPresetSchema.parse(request.body);
+        const preset = await createPreset(accountId, toPresetInput(payload), entitlements.maxPresets);
+
+        request.log.info({ requestId: request.id, accountId, presetId: preset.id }, 'Preset created');
+        return reply.code(201).send({ preset });
+      } catch (error) {
+        return sendSettingsError(reply, error);
+      }
+    }
+  );
+
+  fastify.put(
+    '/settings/presets/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      const { id } = request.params as { id: string };
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      const entitlements = await requireSettingsEntitlement(request, reply, accountId);
+      if (!entitlements) {
+        return reply;
+      }
+
+      if (await rejectNonAdmin(request, reply, accountId, userId)) {
+        return reply;
+      }
+
+      try {
+        const payload = UpdatePresetSchema.parse(request.body);
+        const preset = await updatePreset(accountId, id, toPresetInput(payload), payload.updatedAt);
+
+        request.log.info({ requestId: request.id, accountId, presetId: id }, 'Preset updated');
+        return reply.send({ preset });
+      } catch (error) {
+        return sendSettingsError(reply, error);
+      }
+    }
+  );
+
+  fastify.delete(
+    '/settings/presets/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      const { id } = request.params as { id: string };
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      const entitlements = await requireSettingsEntitlement(request, reply, accountId);
+      if (!entitlements) {
+        return reply;
+      }
+
+      if (await rejectNonAdmin(request, reply, accountId, userId)) {
+        return reply;
+      }
+
+      try {
+        const query = DeletePresetQuerySchema.parse(request.query);
+        await deletePreset(accountId, id, query.updatedAt);
+
+        request.log.info({ requestId: request.id, accountId, presetId: id }, 'Preset deleted');
+        return reply.send({ success: true, id });
+      } catch (error) {
+        return sendSettingsError(reply, error);
+      }
     }
   );
 }
@@ -1,3 +1,5 @@
+import { randomUUID } from 'node:crypto';
+import type { OutgoingHttpHeaders } from 'node:http';
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { ThreadContextSchema } from '../types/index.js';
@@ -6,22 +8,208 @@ import { rateLimitMiddleware } from '../middleware/rate-limit.js';
 import { db } from '../db/client.js';
 import { threads, actions } from '../db/schema.js';
 import { getAccountPlan } from '../services/plan.js';
+import { getEntitlements, isGoalAllowed } from '../services/entitlements.js';
 import { claudeQueue } from '../queue/claude-queue.js';
-import { callClaude } from '../clients/claude-client.js';
-import { parseClaudeResponse } from '../services/response-parser.js';
-import { buildPrompt } from '../services/prompt-builder.js';
-import { assertCircuitClosed, recordFailure, recordSuccess } from '../services/circuit-breaker.js';
+import { generateSuggestion, suggestionGeneratedMetadata } from '../ai/suggestion.js';
+import { saveSuggestionMessage, saveThreadMessages } from '../services/thread-messages.js';
+import { findThreadId, recordThreadIntent } from '../services/threads.js';
+import { FEEDBACK_OUTCOMES, recordSuggestionFeedback } from '../services/suggestion-feedback.js';
+import {
+  estimateSuggestionTokens,
+  getTokenBudgetStatus,
+  recordUsage,
+  setTokenBudgetHeaders,
+} from '../services/usage.js';
+import {
+  resolveSuggestionSettings,
+  type ResolvedSuggestionSettings,
+} from '../services/account-settings.js';
 import {
   setSuggestionResult,
   getSuggestionResult,
   type SuggestionJobResult,
 } from '../services/suggestion-results.js';
+import {
+  createPartialMessagePublisher,
+  subscribeSuggestionEvents,
+  type SuggestionStreamEvent,
+} from '../services/suggestion-stream.js';
+
+const FeedbackSchema = z
+  .object({
+    outcome: z.enum(FEEDBACK_OUTCOMES),
+    variantIndex: z.number().int().min(0).max(4).default(0),
+    // The text the seller actually sent; required when the draft was edited.
+    finalText: z.string().min(1).max(5000).optional(),
+    fbThreadId: z.string().min(1).optional(),
+  })
+  .refine((value) => value.outcome !== 'edited' || value.finalText !== undefined, {
+    message: 'finalText is required when outcome is edited',
+    path: ['finalText'],
+  });
+
+const FEEDBACK_ERRORS: Record<string, { statusCode: number; error: string; message: string }> = {
+  SUGGESTION_NOT_FOUND: { statusCode: 404, error: 'Not Found', message: 'Suggestion job not found' },
+  SUGGESTION_NOT_COMPLETED: { statusCode: 409, error: 'Conflict', message: 'Suggestion has not completed' },
+  VARIANT_NOT_FOUND: { statusCode: 400, error: 'Validation error', message: 'variantIndex: No such reply option' },
+  FEEDBACK_EXISTS: { statusCode: 409, error: 'Conflict', message: 'Feedback was already recorded for this suggestion' },
+};
 
 type AuthedRequest = FastifyRequest & {
   accountId?: string;
   userId?: string;
 };
 
+const STREAM_HEARTBEAT_MS = 15_000;
+
+function sendPlanUpgradeRequired(reply: FastifyReply, message: string): FastifyReply {
+  return reply.code(403).send({
+    error: 'PLAN_UPGRADE_REQUIRED',
+    code: 'PLAN_UPGRADE_REQUIRED',
+    message,
+    statusCode: 403,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function wantsEventStream(request: FastifyRequest): boolean {
+  return (request.headers.accept ?? '').includes('text/event-stream');
+}
+
+function isTerminalStatus(status: SuggestionJobResult['status']): boolean {
+  return status === 'completed' || status === 'failed';
+}
+
+/**
+ * Streams a job's status transitions and partial suggestion text as Server-Sent Events.
+ * The current snapshot is sent first so late subscribers never miss the final state.
+ * `start` runs once the subscription is active (used by the inline path).
+ */
+async function streamSuggestionEvents(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  accountId: string,
+  jobId: string,
+  start?: () => Promise<void>
+): Promise<void> {
+  // Hijacking bypasses Fastify's serializer, so headers set by hooks (CORS, rate limit) are copied over.
+  reply.hijack();
+  reply.raw.writeHead(200, {
+    ...(reply.getHeaders() as OutgoingHttpHeaders),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let closed = false;
+  let unsubscribe: (() => Promise<void>) | null = null;
+  let resolveDone: () => void = () => undefined;
+  const done = new Promise<void>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  const heartbeat = setInterval(() => {
+    if (!closed) {
+      reply.raw.write(': heartbeat\n\n');
+    }
+  }, STREAM_HEARTBEAT_MS);
+
+  const finish = async (): Promise<void> => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    if (unsubscribe) {
+      await unsubscribe();
+    }
+    reply.raw.end();
+    resolveDone();
+  };
+
+  const send = (event: SuggestionStreamEvent): void => {
+    if (closed) return;
+
+    if (event.type === 'status') {
+      reply.raw.write(`event: status\ndata: ${JSON.stringify(event.result)}\n\n`);
+      if (isTerminalStatus(event.result.status)) {
+        void finish();
+      }
+      return;
+    }
+
+    reply.raw.write(`event: partial\ndata: ${JSON.stringify({
+      jobId: event.jobId,
+      delta: event.delta,
+      suggestedMessage: event.suggestedMessage,
+    })}\n\n`);
+  };
+
+  request.raw.on('close', () => {
+    void finish();
+  });
+
+  try {
+    unsubscribe = await subscribeSuggestionEvents(accountId, jobId, send);
+    if (closed) {
+      await unsubscribe();
+      return done;
+    }
+
+    const snapshot = await getSuggestionResult(accountId, jobId);
+    if (snapshot) {
+      send({ type: 'status', result: snapshot });
+    }
+
+    if (start) {
+      await start();
+    }
+  } catch (error) {
+    request.log.error({ error, accountId, jobId }, 'Suggestion stream failed');
+    await finish();
+  }
+
+  return done;
+}
+
+async function logSuggestionFailure(
+  request: FastifyRequest,
+  accountId: string,
+  userId: string,
+  error: unknown,
+  startTime: number
+): Promise<void> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const stack = error instanceof Error ? error.stack : undefined;
+
+  try {
+    await db.insert(actions).values({
+      account_id: accountId,
+      user_id: userId,
+      action_type: 'error',
+      metadata: {
+        error_type: 'suggestion_generation_failed',
+        error_message: errorMessage,
+        duration_ms: Date.now() - startTime,
+      },
+      ip_address: request.ip,
+      user_agent: request.headers['user-agent'] ?? null,
+    });
+  } catch (dbError) {
+    request.log.error({ error: dbError }, 'Failed to log error action');
+  }
+
+  request.log.error(
+    {
+      error: errorMessage,
+      stack,
+      accountId,
+      threadId: (request.body as { threadId?: string } | null)?.threadId,
+      durationMs: Date.now() - startTime,
+    },
+    'Suggestion generation failed'
+  );
+}
+
 export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
   fastify.post(
     '/suggest',
@@ -44,7 +232,7 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
       try {
         const context = ThreadContextSchema.parse(request.body);
 
-        await db
+        const [thread] = await db
           .insert(threads)
           .values({
             account_id: accountId,
@@ -66,7 +254,12 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
               },
               updated_at: new Date(),
             },
-          });
+          })
+          .returning({ id: threads.id });
+
+        if (!thread) {
+          throw new Error('Thread upsert returned no row');
+        }
 
         const body = request.body as {
           conversationGoal?: string;
@@ -74,23 +267,84 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
           savedPresetId?: string;
         };
         const conversationGoal = body.conversationGoal ?? 'general_assistance';
-        const { plan } = await getAccountPlan(accountId);
+        const accountPlan = await getAccountPlan(accountId);
+        const { plan } = accountPlan;
+        const entitlements = getEntitlements(accountPlan);
 
         // Enforce paid-tier features on the server to prevent bypassing via extension.
-        if (plan === 'free' && (body.customInstructions || body.savedPresetId)) {
+        if ((body.customInstructions && !entitlements.customInstructions) || (body.savedPresetId && !entitlements.settings)) {
           request.log.warn(
             { requestId: request.id, accountId, plan },
             'Plan upgrade required for advanced settings'
           );
-          return reply.code(403).send({
-            error: 'PLAN_UPGRADE_REQUIRED',
-            code: 'PLAN_UPGRADE_REQUIRED',
-            message: 'Upgrade your plan to use custom instructions or presets.',
-            statusCode: 403,
+          return sendPlanUpgradeRequired(reply, 'Upgrade your plan to use custom instructions or presets.');
+        }
+
+        if (!isGoalAllowed(entitlements, conversationGoal)) {
+          request.log.warn(
+            { requestId: request.id, accountId, plan, conversationGoal },
+            'Plan upgrade required for conversation goal'
+          );
+          return sendPlanUpgradeRequired(reply, 'Upgrade your plan to use this conversation goal.');
+        }
+
+        const variantCount = context.variantCount ?? 1;
+        if (variantCount > entitlements.maxVariants) {
+          request.log.warn(
+            { requestId: request.id, accountId, plan, variantCount },
+            'Plan upgrade required for reply variants'
+          );
+          return sendPlanUpgradeRequired(
+            reply,
+            `Your plan allows up to ${entitlements.maxVariants} reply option${entitlements.maxVariants === 1 ? '' : 's'} per request. Upgrade your plan for more.`
+          );
+        }
+
+        // Only the most recent messages the plan allows reach the model.
+        const messages = context.messages.slice(-entitlements.maxTranscriptMessages);
+
+        const tokenBudget = await getTokenBudgetStatus(accountId, accountPlan);
+        setTokenBudgetHeaders(reply, tokenBudget);
+
+        // Checked against an estimate so a long transcript cannot overshoot the remaining budget.
+        const estimatedTokens = estimateSuggestionTokens(messages, variantCount);
+        if (estimatedTokens > tokenBudget.remaining) {
+          request.log.warn(
+            { requestId: request.id, accountId, plan, estimatedTokens, remaining: tokenBudget.remaining },
+            'Token budget exceeded'
+          );
+          return reply.code(429).send({
+            error: 'TOKEN_BUDGET_EXCEEDED',
+            code: 'TOKEN_BUDGET_EXCEEDED',
+            message: `Monthly token budget of ${tokenBudget.limit} tokens exhausted. It resets on ${tokenBudget.resetAt.toISOString().slice(0, 10)}, or upgrade your plan.`,
+            statusCode: 429,
             timestamp: new Date().toISOString(),
           });
         }
 
+        let settings: ResolvedSuggestionSettings;
+        try {
+          settings = await resolveSuggestionSettings(accountId, entitlements, {
+            conversationGoal,
+            quickQuestion: context.quickQuestion,
+            customInstructions: body.customInstructions,
+            savedPresetId: body.savedPresetId,
+          });
+        } catch (settingsError) {
+          if (settingsError instanceof Error && settingsError.message === 'PRESET_NOT_FOUND') {
+            return reply.code(400).send({
+              error: 'PRESET_NOT_FOUND',
+              code: 'PRESET_NOT_FOUND',
+              message: `Saved preset "${body.savedPresetId}" does not exist for this account.`,
+              statusCode: 400,
+              timestamp: new Date().toISOString(),
+            });
+          }
+          throw settingsError;
+        }
+
+        await saveThreadMessages(thread.id, context.messages, settings.conversationGoal);
+
         await db.insert(actions).values({
           account_id: accountId,
           user_id: userId,
@@ -98,7 +352,9 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
           metadata: {
             thread_id: context.threadId,
             message_count: context.messages.length,
-            conversation_goal: conversationGoal,
+            conversation_goal: settings.conversationGoal,
+            preset_id: settings.presetId ?? null,
+            variant_count: variantCount,
           },
           ip_address: request.ip,
           user_agent: request.headers['user-agent'] ?? null,
@@ -107,95 +363,106 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
         // By default, generate inline to avoid timeouts in deployments that don't run a separate BullMQ worker.
         // Opt into queued mode by setting USE_QUEUE=true.
         const useQueue = process.env.USE_QUEUE === 'true';
+        // Clients sending `Accept: text/event-stream` get status and partial text pushed on this response.
+        const streamRequested = wantsEventStream(request);
 
         if (!useQueue) {
-          const jobId = request.id;
-
-          await setSuggestionResult(accountId, jobId, {
-            jobId,
-            status: 'processing',
-            suggestion: null,
-            error: null,
-            updatedAt: new Date().toISOString(),
-          });
-
-          try {
-            await assertCircuitClosed();
-
-            const prompt = buildPrompt({
-              conversationGoal,
-              messages: context.messages,
-              listingTitle: context.listingTitle ?? undefined,
-              listingPrice: context.listingPrice ?? undefined,
-              quickQuestion: (context as { quickQuestion?: string }).quickQuestion,
-              persistentContext: context.persistentContext,
-              customInstructions: body.customInstructions,
-            });
-
-            const transcript = context.messages
-              .map((message) => `${message.isUser ? 'User' : 'Other'}: ${message.text}`)
-              .join('\n') || 'No messages yet.';
-
-            const claudeResponse = await callClaude({
-              system: prompt.systemInstruction,
-              userMessage: transcript,
-              maxTokens: 300,
-              temperature: 0,
-            });
-
-            const suggestion = parseClaudeResponse(claudeResponse.content, conversationGoal);
-            await recordSuccess();
+          // Fastify's request id is a per-process counter the client can also set, so it repeats across
+          // restarts; result keys, stream channels and feedback claims need an id that never does.
+          const jobId = randomUUID();
 
-            const completed: SuggestionJobResult = {
+          const generateInline = async (): Promise<SuggestionJobResult> => {
+            await setSuggestionResult(accountId, jobId, {
               jobId,
-              status: 'completed',
-              suggestion,
+              status: 'processing',
+              suggestion: null,
               error: null,
               updatedAt: new Date().toISOString(),
-            };
-            await setSuggestionResult(accountId, jobId, completed);
-
-            await db.insert(actions).values({
-              account_id: accountId,
-              user_id: userId,
-              action_type: 'suggestion_generated',
-              metadata: {
-                thread_id: context.threadId,
-                message_count: context.messages.length,
-                intent_score: suggestion.intentScore,
-                next_action: suggestion.nextAction,
-                tokens_used: claudeResponse.usage.totalTokens,
-                input_tokens: claudeResponse.usage.inputTokens,
-                output_tokens: claudeResponse.usage.outputTokens,
-                duration_ms: Date.now() - startTime,
-              },
-              ip_address: request.ip,
-              user_agent: request.headers['user-agent'] ?? null,
             });
 
-            return reply.send(completed);
-          } catch (inlineError) {
-            const message = inlineError instanceof Error ? inlineError.message : 'Suggestion generation failed';
-            await recordFailure();
-
-            const failed: SuggestionJobResult = {
-              jobId,
-              status: 'failed',
-              suggestion: null,
-              error: message === 'CLAUDE_CIRCUIT_OPEN'
-                ? 'Claude temporarily unavailable. Please retry shortly.'
-                : message,
-              updatedAt: new Date().toISOString(),
-            };
-            await setSuggestionResult(accountId, jobId, failed);
-            throw inlineError;
+            try {
+              const generated = await generateSuggestion({
+                conversationGoal: settings.conversationGoal,
+                messages,
+                models: entitlements.models,
+                listingTitle: context.listingTitle ?? undefined,
+                listingPrice: context.listingPrice ?? undefined,
+                quickQuestion: settings.quickQuestion,
+                persistentContext: context.persistentContext,
+                globalInstructions: settings.globalInstructions,
+                presetInstructions: settings.presetInstructions,
+                customInstructions: settings.customInstructions,
+                tone: settings.tone,
+                maxLength: settings.maxLength,
+                variantCount,
+                onText: createPartialMessagePublisher(accountId, jobId),
+              });
+              const { suggestion, usage } = generated;
+
+              const completed: SuggestionJobResult = {
+                jobId,
+                status: 'completed',
+                suggestion,
+                error: null,
+                servedBy: { provider: generated.provider, model: generated.model },
+                updatedAt: new Date().toISOString(),
+              };
+              await setSuggestionResult(accountId, jobId, completed);
+              await saveSuggestionMessage(thread.id, suggestion.suggestedMessage);
+              await recordThreadIntent(thread.id, suggestion.intentScore);
+              await recordUsage(accountId, usage.totalTokens);
+
+              await db.insert(actions).values({
+                account_id: accountId,
+                user_id: userId,
+                action_type: 'suggestion_generated',
+                metadata: suggestionGeneratedMetadata(generated, {
+                  jobId,
+                  threadId: context.threadId,
+                  conversationGoal: settings.conversationGoal,
+                  presetId: settings.presetId,
+                  messageCount: messages.length,
+                  durationMs: Date.now() - startTime,
+                }),
+                ip_address: request.ip,
+                user_agent: request.headers['user-agent'] ?? null,
+              });
+
+              return completed;
+            } catch (inlineError) {
+              const message = inlineError instanceof Error ? inlineError.message : 'Suggestion generation failed';
+              const failed: SuggestionJobResult = {
+                jobId,
+                status: 'failed',
+                suggestion: null,
+                error: message === 'SUGGESTION_OUTPUT_INVALID'
+                  ? 'The assistant returned an unusable reply. Please retry.'
+                  : message,
+                updatedAt: new Date().toISOString(),
+              };
+              await setSuggestionResult(accountId, jobId, failed);
+              throw inlineError;
+            }
+          };
+
+          if (streamRequested) {
+            return streamSuggestionEvents(request, reply, accountId, jobId, async () => {
+              try {
+                await generateInline();
+              } catch (streamError) {
+                await logSuggestionFailure(request, accountId, userId, streamError, startTime);
+              }
+            });
           }
+
+          return reply.send(await generateInline());
         }
 
         const job = await claudeQueue.add('generate', {
           accountId,
           userId,
           threadId: context.threadId,
+          threadRecordId: thread.id,
           fbThreadId: context.fbThreadId,
           listingTitle: context.listingTitle,
           listingPrice: context.listingPrice,
@@ -205,7 +472,8 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
           persistentContext: context.persistentContext,
           customInstructions: body.customInstructions,
           savedPresetId: body.savedPresetId,
-          messages: context.messages,
+          variantCount,
+          messages,
           requestId: request.id,
         });
 
@@ -230,38 +498,15 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
           'Suggestion job queued'
         );
 
+        if (streamRequested) {
+          return streamSuggestionEvents(request, reply, accountId, jobId);
+        }
+
         return reply.send(pending);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        const stack = error instanceof Error ? error.stack : undefined;
 
-        try {
-          await db.insert(actions).values({
-            account_id: accountId,
-            user_id: userId,
-            action_type: 'error',
-            metadata: {
-              error_type: 'suggestion_generation_failed',
-              error_message: errorMessage,
-              duration_ms: Date.now() - startTime,
-            },
-            ip_address: request.ip,
-            user_agent: request.headers['user-agent'] ?? null,
-          });
-        } catch (dbError) {
-          request.log.error({ error: dbError }, 'Failed to log error action');
-        }
-
-        request.log.error(
-          {
-            error: errorMessage,
-            stack,
-            accountId,
-            threadId: (request.body as { threadId?: string } | null)?.threadId,
-            durationMs: Date.now() - startTime,
-          },
-          'Suggestion generation failed'
-        );
+        await logSuggestionFailure(request, accountId, userId, error, startTime);
 
         if (error instanceof z.ZodError) {
           const issue = error.issues[0];
@@ -327,4 +572,111 @@ export async function suggestRoutes(fastify: FastifyInstance): Promise<void> {
       return reply.send(result);
     }
   );
+  fastify.get(
+    '/suggest/:jobId/stream',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+      const params = request.params as { jobId?: string };
+      const jobId = typeof params.jobId === 'string' ? params.jobId : '';
+
+      if (!accountId) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Missing auth context',
+          statusCode: 401,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (!jobId) {
+        return reply.code(400).send({
+          error: 'Validation error',
+          message: 'jobId is required',
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const result = await getSuggestionResult(accountId, jobId);
+
+      if (!result) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: 'Suggestion job not found',
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return streamSuggestionEvents(request, reply, accountId, jobId);
+    }
+  );
+
+  fastify.post(
+    '/suggest/:jobId/feedback',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      const { jobId } = request.params as { jobId: string };
+
+      if (!accountId || !userId) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Missing auth context',
+          statusCode: 401,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const payload = FeedbackSchema.parse(request.body);
+        const threadId = payload.fbThreadId ? await findThreadId(accountId, payload.fbThreadId) : null;
+
+        const feedback = await recordSuggestionFeedback(accountId, userId, jobId, {
+          outcome: payload.outcome,
+          variantIndex: payload.variantIndex,
+          finalText: payload.finalText,
+          threadId,
+          ipAddress: request.ip,
+          userAgent: request.headers['user-agent'] ?? null,
+        });
+
+        request.log.info(
+          { requestId: request.id, accountId, jobId, outcome: feedback.outcome, editDistance: feedback.editDistance },
+          'Suggestion feedback recorded'
+        );
+
+        return reply.code(201).send({ success: true, jobId, ...feedback });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          const issue = error.issues[0];
+          const field = issue?.path.join('.') || 'body';
+          return reply.code(400).send({
+            error: 'Validation error',
+            message: issue ? `${field}: ${issue.message}` : 'Invalid request',
+            statusCode: 400,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const known = error instanceof Error ? FEEDBACK_ERRORS[error.message] : undefined;
+        if (error instanceof Error && known) {
+          return reply.code(known.statusCode).send({
+            error: known.error,
+            code: error.message,
+            message: known.message,
+            statusCode: known.statusCode,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        throw error;
+      }
+    }
+  );
 }
@@ -0,0 +1,252 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { createSession } from '../services/sessions.js';
+import {
+  acceptInvite,
+  createInvite,
+  getTeam,
+  getUserRole,
+  removeMember,
+  revokeInvite,
+  updateMemberRole,
+} from '../services/team.js';
+import { USER_ROLES } from '../types/index.js';
+
+const CreateInviteSchema = z.object({
+  role: z.enum(USER_ROLES).default('member'),
+});
+
+const AcceptInviteSchema = z.object({
+  token: z.string().min(1).max(200),
+});
+
+const UpdateMemberSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+const IdParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const TEAM_ERRORS: Record<string, { statusCode: number; error: string; message: string }> = {
+  FORBIDDEN_ROLE: { statusCode: 403, error: 'Forbidden', message: 'Your role does not allow this action' },
+  MEMBER_NOT_FOUND: { statusCode: 404, error: 'Not Found', message: 'Team member not found' },
+  INVITE_NOT_FOUND: { statusCode: 404, error: 'Not Found', message: 'Invite not found or already used' },
+  INVITE_EXPIRED: { statusCode: 410, error: 'Gone', message: 'Invite has expired' },
+  ALREADY_MEMBER: { statusCode: 409, error: 'Conflict', message: 'You are already on this account' },
+  ACCOUNT_HAS_MEMBERS: {
+    statusCode: 409,
+    error: 'Conflict',
+    message: 'Your current account has other members; remove them before joining another account',
+  },
+  ACCOUNT_MERGE_CONFLICT: {
+    statusCode: 409,
+    error: 'Conflict',
+    message: 'This device is on a paid plan and cannot join another account',
+  },
+  SEAT_LIMIT_REACHED: { statusCode: 409, error: 'Conflict', message: 'No free seats left on this plan' },
+  LAST_OWNER: { statusCode: 409, error: 'Conflict', message: 'The account must keep at least one owner' },
+};
+
+type AuthedRequest = FastifyRequest & {
+  accountId?: string;
+  userId?: string;
+};
+
+function sendUnauthorized(reply: FastifyReply): FastifyReply {
+  return reply.code(401).send({
+    error: 'Unauthorized',
+    message: 'Missing auth context',
+    statusCode: 401,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendTeamError(reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof z.ZodError) {
+    const issue = error.issues[0];
+    const field = issue?.path.join('.') || 'request';
+    return reply.code(400).send({
+      error: 'Validation error',
+      message: issue ? `${field}: ${issue.message}` : 'Invalid request',
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const known = error instanceof Error ? TEAM_ERRORS[error.message] : undefined;
+  if (error instanceof Error && known) {
+    return reply.code(known.statusCode).send({
+      error: known.error,
+      code: error.message,
+      message: known.message,
+      statusCode: known.statusCode,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  throw error;
+}
+
+function clientOf(request: FastifyRequest): { ipAddress: string | null; userAgent: string | null } {
+  return {
+    ipAddress: request.ip,
+    userAgent: request.headers['user-agent'] ?? null,
+  };
+}
+
+export async function teamRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get(
+    '/team',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      const role = await getUserRole(accountId, userId);
+      if (!role) {
+        return sendUnauthorized(reply);
+      }
+
+      const team = await getTeam(accountId, role);
+      return reply.send({ role, ...team });
+    }
+  );
+
+  fastify.post(
+    '/team/invites',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const body = CreateInviteSchema.parse(request.body ?? {});
+        const role = await getUserRole(accountId, userId);
+        if (!role) {
+          return sendUnauthorized(reply);
+        }
+
+        const invite = await createInvite(accountId, { id: userId, role }, body.role);
+        request.log.info({ requestId: request.id, accountId, inviteId: invite.id }, 'Invite created');
+        return reply.code(201).send({ invite });
+      } catch (error) {
+        return sendTeamError(reply, error);
+      }
+    }
+  );
+
+  fastify.delete(
+    '/team/invites/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const { id } = IdParamsSchema.parse(request.params);
+        const role = await getUserRole(accountId, userId);
+        if (!role || role === 'member') {
+          throw new Error('FORBIDDEN_ROLE');
+        }
+
+        await revokeInvite(accountId, id);
+        return reply.code(204).send();
+      } catch (error) {
+        return sendTeamError(reply, error);
+      }
+    }
+  );
+
+  fastify.post(
+    '/team/invites/accept',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const body = AcceptInviteSchema.parse(request.body);
+        const client = clientOf(request);
+        const result = await acceptInvite(accountId, userId, body.token, client);
+
+        // The old session was revoked with the merged account; hand back tokens for the new one.
+        const { sessionId, accessToken, refreshToken } = await createSession(result.accountId, userId, client);
+        return reply.send({ ...result, userId, sessionId, accessToken, refreshToken });
+      } catch (error) {
+        return sendTeamError(reply, error);
+      }
+    }
+  );
+
+  fastify.patch(
+    '/team/members/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const { id } = IdParamsSchema.parse(request.params);
+        const body = UpdateMemberSchema.parse(request.body);
+        const role = await getUserRole(accountId, userId);
+        if (!role) {
+          return sendUnauthorized(reply);
+        }
+
+        const member = await updateMemberRole(accountId, { id: userId, role }, id, body.role);
+        request.log.info({ requestId: request.id, accountId, memberId: id, role: body.role }, 'Member role changed');
+        return reply.send({ member });
+      } catch (error) {
+        return sendTeamError(reply, error);
+      }
+    }
+  );
+
+  fastify.delete(
+    '/team/members/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const { id } = IdParamsSchema.parse(request.params);
+        const role = await getUserRole(accountId, userId);
+        if (!role) {
+          return sendUnauthorized(reply);
+        }
+
+        await removeMember(accountId, { id: userId, role }, id, clientOf(request));
+        return reply.code(204).send();
+      } catch (error) {
+        return sendTeamError(reply, error);
+      }
+    }
+  );
+}
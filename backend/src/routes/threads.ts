@@ -0,0 +1,211 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { db } from '../db/client.js';
+import { actions } from '../db/schema.js';
+import { listThreadMessages } from '../services/thread-messages.js';
+import { findThreadId, getThread, listThreads, updateThreadStatus } from '../services/threads.js';
+import { THREAD_STATUSES } from '../types/index.js';
+
+const ThreadListQuerySchema = z.object({
+  // Comma separated, e.g. `?status=negotiating,scheduled`
+  status: z
+    .string()
+    .transform((value) => value.split(',').map((status) => status.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(THREAD_STATUSES)))
+    .optional(),
+  minIntent: z.coerce.number().min(0).max(1).optional(),
+  listing: z.string().trim().min(1).max(500).optional(),
+  updatedAfter: z.string().datetime().optional(),
+  updatedBefore: z.string().datetime().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+const UpdateThreadSchema = z.object({
+  status: z.enum(THREAD_STATUSES),
+});
+
+const MessagesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+  before: z.coerce.number().int().positive().optional(),
+});
+
+type AuthedRequest = FastifyRequest & {
+  accountId?: string;
+  userId?: string;
+};
+
+function sendUnauthorized(reply: FastifyReply): FastifyReply {
+  return reply.code(401).send({
+    error: 'Unauthorized',
+    message: 'Missing auth context',
+    statusCode: 401,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendThreadNotFound(reply: FastifyReply): FastifyReply {
+  return reply.code(404).send({
+    error: 'Not Found',
+    code: 'THREAD_NOT_FOUND',
+    message: 'Thread not found',
+    statusCode: 404,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendThreadError(reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof z.ZodError) {
+    const issue = error.issues[0];
+    const field = issue?.path.join('.') || 'request';
+    return reply.code(400).send({
+      error: 'Validation error',
+      message: issue ? `${field}: ${issue.message}` : 'Invalid request',
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (error instanceof Error && error.message === 'INVALID_CURSOR') {
+    return reply.code(400).send({
+      error: 'Validation error',
+      code: 'INVALID_CURSOR',
+      message: 'cursor: Invalid cursor',
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  throw error;
+}
+
+export async function threadRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get(
+    '/threads',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const query = ThreadListQuerySchema.parse(request.query);
+        const page = await listThreads(accountId, {
+          statuses: query.status,
+          minIntent: query.minIntent,
+          listing: query.listing,
+          updatedAfter: query.updatedAfter,
+          updatedBefore: query.updatedBefore,
+          cursor: query.cursor,
+          limit: query.limit,
+        });
+
+        return reply.send(page);
+      } catch (error) {
+        return sendThreadError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/threads/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+      const { id } = request.params as { id: string };
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      const thread = await getThread(accountId, id);
+      if (!thread) {
+        return sendThreadNotFound(reply);
+      }
+
+      return reply.send({ thread });
+    }
+  );
+
+  fastify.patch(
+    '/threads/:id',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+      const { id } = request.params as { id: string };
+
+      if (!accountId || !userId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const payload = UpdateThreadSchema.parse(request.body);
+        const result = await updateThreadStatus(accountId, id, payload.status);
+
+        if (!result) {
+          return sendThreadNotFound(reply);
+        }
+
+        await db.insert(actions).values({
+          account_id: accountId,
+          user_id: userId,
+          thread_id: result.thread.id,
+          action_type: 'thread_status_changed',
+          metadata: {
+            from_status: result.previousStatus,
+            to_status: result.thread.status,
+          },
+          ip_address: request.ip,
+          user_agent: request.headers['user-agent'] ?? null,
+        });
+
+        request.log.info(
+          { requestId: request.id, accountId, threadId: result.thread.id, status: result.thread.status },
+          'Thread status updated'
+        );
+
+        return reply.send({ thread: result.thread });
+      } catch (error) {
+        return sendThreadError(reply, error);
+      }
+    }
+  );
+
+  fastify.get(
+    '/threads/:id/messages',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId } = request as AuthedRequest;
+      const { id } = request.params as { id: string };
+
+      if (!accountId) {
+        return sendUnauthorized(reply);
+      }
+
+      try {
+        const query = MessagesQuerySchema.parse(request.query);
+        const threadId = await findThreadId(accountId, id);
+
+        if (!threadId) {
+          return sendThreadNotFound(reply);
+        }
+
+        const messages = await listThreadMessages(threadId, query);
+        return reply.send({ threadId, messages });
+      } catch (error) {
+        return sendThreadError(reply, error);
+      }
+    }
+  );
+}
@@ -0,0 +1,46 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { authMiddleware } from '../middleware/auth.js';
+import { getAccountPlan } from '../services/plan.js';
+import { getUsageSnapshot } from '../services/usage.js';
+
+type AuthedRequest = FastifyRequest & {
+  accountId?: string;
+  userId?: string;
+};
+
+export async function usageRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.get(
+    '/usage',
+    {
+      preHandler: [authMiddleware],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { accountId, userId } = request as AuthedRequest;
+
+      if (!accountId || !userId) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Missing auth context',
+          statusCode: 401,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const accountPlan = await getAccountPlan(accountId);
+        const usage = await getUsageSnapshot(accountId, userId, accountPlan);
+        return reply.send({ usage });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Account not found') {
+          return reply.code(404).send({
+            error: 'Not Found',
+            message: 'Account not found',
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+          });
+        }
+        throw error;
+      }
+    }
+  );
+}
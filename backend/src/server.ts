@@ -6,6 +6,12 @@ import { authRoutes } from './routes/auth.js';
 import { suggestRoutes } from './routes/suggest.js';
 import { settingsRoutes } from './routes/settings.js';
 import { adminRoutes } from './routes/admin.js';
+import { threadRoutes } from './routes/threads.js';
+import { analyticsRoutes } from './routes/analytics.js';
+import { usageRoutes } from './routes/usage.js';
+import { teamRoutes } from './routes/team.js';
+import { billingRoutes } from './routes/billing.js';
+import { accountRoutes } from './routes/account.js';
 import { errorHandler } from './middleware/error-handler.js';
 import { checkDatabaseConnection } from './db/client.js';
 import { checkRedisConnection } from './redis/client.js';
@@ -85,6 +91,12 @@ await fastify.register(authRoutes);
 await fastify.register(suggestRoutes);
 await fastify.register(settingsRoutes);
 await fastify.register(adminRoutes);
+await fastify.register(threadRoutes);
+await fastify.register(analyticsRoutes);
+await fastify.register(usageRoutes);
+await fastify.register(teamRoutes);
+await fastify.register(billingRoutes);
+await fastify.register(accountRoutes);
 
 // Start the queue worker in-process by default.
 // This avoids suggestion jobs getting stuck in `pending` when no separate worker service is running.
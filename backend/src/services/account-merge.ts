@@ -0,0 +1,58 @@
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { accounts, authSessions } from '../db/schema.js';
+
+/**
+ * Moves every device, thread, message, action and session from `sourceId` into `targetId`
+ * and deletes the source account. Threads both accounts track are collapsed into the
+ * target's copy. Source settings and usage counters are dropped.
+ *
+ * Returns the ids of the moved sessions that were still active; callers must revoke them
+ * because their access tokens still carry the old account id.
+ */
+export async function mergeAccounts(sourceId: string, targetId: string): Promise<string[]> {
+  return db.transaction(async (tx) => {
+    const activeSessions = await tx
+      .select({ id: authSessions.id })
+      .from(authSessions)
+      .where(and(eq(authSessions.account_id, sourceId), isNull(authSessions.revoked_at)));
+
+    // Copy messages of shared threads onto the target thread, skipping ones it already has.
+    await tx.execute(sql`
+      INSERT INTO messages (thread_id, sender_type, text, timestamp, was_sent_auto, position, content_hash, created_at)
+      SELECT target.id, m.sender_type, m.text, m.timestamp, m.was_sent_auto, m.position, m.content_hash, m.created_at
+      FROM messages m
+      JOIN threads source ON source.id = m.thread_id
+      JOIN threads target ON target.account_id = ${targetId} AND target.fb_thread_id = source.fb_thread_id
+      WHERE source.account_id = ${sourceId}
+      ON CONFLICT (thread_id, content_hash) DO NOTHING
+    `);
+
+    await tx.execute(sql`
+      UPDATE actions SET thread_id = target.id
+      FROM threads source, threads target
+      WHERE actions.thread_id = source.id
+        AND source.account_id = ${sourceId}
+        AND target.account_id = ${targetId}
+        AND target.fb_thread_id = source.fb_thread_id
+    `);
+
+    await tx.execute(sql`
+      DELETE FROM threads source
+      USING threads target
+      WHERE source.account_id = ${sourceId}
+        AND target.account_id = ${targetId}
+        AND target.fb_thread_id = source.fb_thread_id
+    `);
+
+    await tx.execute(sql`UPDATE threads SET account_id = ${targetId} WHERE account_id = ${sourceId}`);
+    // Moved devices join as members; callers grant more where appropriate.
+    await tx.execute(sql`UPDATE users SET account_id = ${targetId}, role = 'member' WHERE account_id = ${sourceId}`);
+    await tx.execute(sql`UPDATE actions SET account_id = ${targetId} WHERE account_id = ${sourceId}`);
+    await tx.execute(sql`UPDATE auth_sessions SET account_id = ${targetId} WHERE account_id = ${sourceId}`);
+
+    await tx.delete(accounts).where(eq(accounts.id, sourceId));
+
+    return activeSessions.map((session) => session.id);
+  });
+}
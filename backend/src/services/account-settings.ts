@@ -0,0 +1,335 @@
+import { randomUUID } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { accountSettings, type AccountSetting } from '../db/schema.js';
+import {
+  CONVERSATION_GOALS,
+  PRESET_TONES,
+  type ConversationGoal,
+  type PresetTone,
+} from '../types/index.js';
+import type { PlanEntitlements } from './entitlements.js';
+
+export interface GoalPreset {
+  id: string;
+  name: string;
+  baseGoal: ConversationGoal;
+  instructions: string | null;
+  quickQuestion: string | null;
+  tone: PresetTone | null;
+  maxLength: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GoalPresetInput = Pick<
+  GoalPreset,
+  'name' | 'baseGoal' | 'instructions' | 'quickQuestion' | 'tone' | 'maxLength'
+>;
+
+export interface AccountSettingsSnapshot {
+  globalInstructions: string | null;
+  goalPresets: GoalPreset[];
+  updatedAt: string | null;
+}
+
+export interface SuggestionSettingsInput {
+  conversationGoal: string;
+  quickQuestion?: string;
+  customInstructions?: string;
+  savedPresetId?: string;
+}
+
+export interface ResolvedSuggestionSettings {
+  conversationGoal: string;
+  quickQuestion?: string;
+  globalInstructions?: string;
+  presetInstructions?: string;
+  customInstructions?: string;
+  tone?: PresetTone;
+  /** Character limit for suggestedMessage: the preset's maxLength, capped by the plan. */
+  maxLength: number;
+  presetId?: string;
+}
+
+export async function getAccountSettings(accountId: string): Promise<AccountSettingsSnapshot> {
+  const [row] = await db
+    .select()
+    .from(accountSettings)
+    .where(eq(accountSettings.account_id, accountId))
+    .limit(1);
+
+  return toSnapshot(row);
+}
+
+/**
+ * Merges stored account settings with the per-request controls.
+ *
+ * Precedence (most specific wins):
+ * - conversationGoal: preset base goal, then the request goal
+ * - quickQuestion: request, then preset
+ * - instructions: request customInstructions, then preset instructions, then account globalInstructions
+ * - maxLength: preset, never above the plan's maxMessageLength
+ *
+ * Stored settings and custom instructions are ignored when the plan is not entitled to them,
+ * e.g. after a downgrade while a job was queued.
+ * Throws PRESET_NOT_FOUND when savedPresetId does not match a stored preset.
+ */
+export async function resolveSuggestionSettings(
+  accountId: string,
+  entitlements: PlanEntitlements,
+  input: SuggestionSettingsInput
+): Promise<ResolvedSuggestionSettings> {
+  const resolved: ResolvedSuggestionSettings = {
+    conversationGoal: input.conversationGoal,
+    quickQuestion: nonEmpty(input.quickQuestion),
+    customInstructions: entitlements.customInstructions ? nonEmpty(input.customInstructions) : undefined,
+    maxLength: entitlements.maxMessageLength,
+  };
+
+  if (!entitlements.settings) {
+    return resolved;
+  }
+
+  const settings = await getAccountSettings(accountId);
+  resolved.globalInstructions = settings.globalInstructions ?? undefined;
+
+  if (!input.savedPresetId) {
+    return resolved;
+  }
+
+  const preset = settings.goalPresets.find((candidate) => candidate.id === input.savedPresetId);
+  if (!preset) {
+    throw new Error('PRESET_NOT_FOUND');
+  }
+
+  resolved.presetId = preset.id;
+  resolved.conversationGoal = preset.baseGoal;
+  resolved.quickQuestion = resolved.quickQuestion ?? preset.quickQuestion ?? undefined;
+  resolved.presetInstructions = preset.instructions ?? undefined;
+  resolved.tone = preset.tone ?? undefined;
+  resolved.maxLength = Math.min(preset.maxLength ?? entitlements.maxMessageLength, entitlements.maxMessageLength);
+
+  return resolved;
+}
+
+/**
+ * Updates the account-wide settings, creating the row if needed. Presets are left alone;
+ * they change through createPreset, updatePreset and deletePreset.
+ */
+export async function saveAccountSettings(
+  accountId: string,
+  input: { globalInstructions?: string | null }
+): Promise<AccountSettingsSnapshot> {
+  return mutateSettings(accountId, (current) => ({
+    ...current,
+    globalInstructions: input.globalInstructions !== undefined
+      ? input.globalInstructions
+      : current.globalInstructions,
+  }));
+}
+
+/**
+ * Throws PRESET_LIMIT_REACHED when the account already has `maxPresets` presets.
+ */
+export async function createPreset(
+  accountId: string,
+  input: GoalPresetInput,
+  maxPresets: number
+): Promise<GoalPreset> {
+  const preset = buildPreset(input, new Date());
+
+  await mutateSettings(accountId, (current) => {
+    if (current.goalPresets.length >= maxPresets) {
+      throw new Error('PRESET_LIMIT_REACHED');
+    }
+    return {
+      ...current,
+      goalPresets: [...current.goalPresets, preset],
+    };
+  });
+
+  return preset;
+}
+
+/**
+ * Replaces a preset if the caller's `expectedUpdatedAt` still matches the stored value.
+ * Throws PRESET_NOT_FOUND or PRESET_CONFLICT.
+ */
+export async function updatePreset(
+  accountId: string,
+  presetId: string,
+  input: GoalPresetInput,
+  expectedUpdatedAt: string
+): Promise<GoalPreset> {
+  const snapshot = await mutateSettings(accountId, (current, now) => {
+    const existing = findPresetForWrite(current.goalPresets, presetId, expectedUpdatedAt);
+    const replacement: GoalPreset = {
+      ...buildPreset(input, now),
+      id: existing.id,
+      createdAt: existing.createdAt,
+    };
+
+    return {
+      ...current,
+      goalPresets: current.goalPresets.map((preset) => (preset.id === presetId ? replacement : preset)),
+    };
+  });
+
+  const updated = snapshot.goalPresets.find((preset) => preset.id === presetId);
+  if (!updated) {
+    throw new Error('PRESET_NOT_FOUND');
+  }
+
+  return updated;
+}
+
+/**
+ * Deletes a preset if the caller's `expectedUpdatedAt` still matches the stored value.
+ * Throws PRESET_NOT_FOUND or PRESET_CONFLICT.
+ */
+export async function deletePreset(
+  accountId: string,
+  presetId: string,
+  expectedUpdatedAt: string
+): Promise<void> {
+  await mutateSettings(accountId, (current) => {
+    findPresetForWrite(current.goalPresets, presetId, expectedUpdatedAt);
+    return {
+      ...current,
+      goalPresets: current.goalPresets.filter((preset) => preset.id !== presetId),
+    };
+  });
+}
+
+/**
+ * Read-modify-write of the account's settings row under a row lock so concurrent
+ * preset edits cannot overwrite each other's changes to the jsonb array.
+ */
+async function mutateSettings(
+  accountId: string,
+  mutate: (
+    current: Pick<AccountSettingsSnapshot, 'globalInstructions' | 'goalPresets'>,
+    now: Date
+  ) => Pick<AccountSettingsSnapshot, 'globalInstructions' | 'goalPresets'>
+): Promise<AccountSettingsSnapshot> {
+  return db.transaction(async (tx) => {
+    const now = new Date();
+
+    await tx
+      .insert(accountSettings)
+      .values({ account_id: accountId, created_at: now, updated_at: now })
+      .onConflictDoNothing({ target: [accountSettings.account_id] });
+
+    const [row] = await tx
+      .select()
+      .from(accountSettings)
+      .where(eq(accountSettings.account_id, accountId))
+      .for('update');
+
+    const next = mutate(toSnapshot(row), now);
+
+    const [saved] = await tx
+      .update(accountSettings)
+      .set({
+        global_instructions: next.globalInstructions,
+        goal_presets: next.goalPresets,
+        updated_at: now,
+      })
+      .where(eq(accountSettings.account_id, accountId))
+      .returning();
+
+    return toSnapshot(saved);
+  });
+}
+
+function findPresetForWrite(
+  presets: GoalPreset[],
+  presetId: string,
+  expectedUpdatedAt: string
+): GoalPreset {
+  const existing = presets.find((preset) => preset.id === presetId);
+  if (!existing) {
+    throw new Error('PRESET_NOT_FOUND');
+  }
+
+  if (Date.parse(existing.updatedAt) !== Date.parse(expectedUpdatedAt)) {
+    throw new Error('PRESET_CONFLICT');
+  }
+
+  return existing;
+}
+
+function buildPreset(input: GoalPresetInput, now: Date): GoalPreset {
+  const timestamp = now.toISOString();
+  return {
+    id: randomUUID(),
+    name: input.name.trim(),
+    baseGoal: input.baseGoal,
+    instructions: nonEmpty(input.instructions ?? undefined) ?? null,
+    quickQuestion: nonEmpty(input.quickQuestion ?? undefined) ?? null,
+    tone: input.tone ?? null,
+    maxLength: input.maxLength ?? null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+function toSnapshot(row: AccountSetting | undefined): AccountSettingsSnapshot {
+  if (!row) {
+    return { globalInstructions: null, goalPresets: [], updatedAt: null };
+  }
+
+  const presets = Array.isArray(row.goal_presets) ? row.goal_presets : [];
+
+  return {
+    globalInstructions: nonEmpty(row.global_instructions ?? undefined) ?? null,
+    goalPresets: presets
+      .map((value) => toGoalPreset(value, row.updated_at))
+      .filter((preset): preset is GoalPreset => preset !== null),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+// Presets saved before the typed schema existed may be missing fields; fill what we can.
+function toGoalPreset(value: unknown, fallbackTimestamp: Date): GoalPreset | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const id = asString(record.id);
+  if (!id) {
+    return null;
+  }
+
+  const baseGoal = asString(record.baseGoal) ?? asString(record.conversationGoal);
+  const tone = asString(record.tone);
+  const maxLength = typeof record.maxLength === 'number' && record.maxLength > 0
+    ? Math.floor(record.maxLength)
+    : null;
+  const fallback = fallbackTimestamp.toISOString();
+
+  return {
+    id,
+    name: asString(record.name) ?? id,
+    baseGoal: CONVERSATION_GOALS.includes(baseGoal as ConversationGoal)
+      ? (baseGoal as ConversationGoal)
+      : 'general_assistance',
+    instructions: asString(record.instructions) ?? asString(record.customInstructions),
+    quickQuestion: asString(record.quickQuestion),
+    tone: PRESET_TONES.includes(tone as PresetTone) ? (tone as PresetTone) : null,
+    maxLength,
+    createdAt: asString(record.createdAt) ?? fallback,
+    updatedAt: asString(record.updatedAt) ?? fallback,
+  };
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? nonEmpty(value) ?? null : null;
+}
+
+function nonEmpty(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed && trimmed.length > 0 ? trimmed : undefined;
+}
@@ -0,0 +1,107 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { accounts, actions, type Account } from '../db/schema.js';
+import { redis } from '../redis/client.js';
+import { getAccountOwnerId } from './team.js';
+
+export type AccountStatus = Account['status'];
+
+export interface AccountStatusError {
+  statusCode: number;
+  error: string;
+  code: string;
+  message: string;
+}
+
+// Statuses that lock the account out of every authenticated route.
+export const BLOCKED_STATUS_ERRORS: Partial<Record<AccountStatus, AccountStatusError>> = {
+  suspended: {
+    statusCode: 403,
+    error: 'Forbidden',
+    code: 'ACCOUNT_SUSPENDED',
+    message: 'This account has been suspended. Contact support to restore access.',
+  },
+  churned: {
+    statusCode: 403,
+    error: 'Forbidden',
+    code: 'ACCOUNT_CLOSED',
+    message: 'This account has been closed.',
+  },
+};
+
+// Checked on every authenticated request, so the status is cached briefly.
+const STATUS_CACHE_TTL_SECONDS = 60;
+
+function statusCacheKey(accountId: string): string {
+  return `account_status:${accountId}`;
+}
+
+/**
+ * Returns null when the account no longer exists (e.g. it was merged away).
+ */
+export async function getAccountStatus(accountId: string): Promise<AccountStatus | null> {
+  const cached = await redis.get(statusCacheKey(accountId));
+  if (cached === 'active' || cached === 'suspended' || cached === 'churned') {
+    return cached;
+  }
+
+  const [account] = await db
+    .select({ status: accounts.status })
+    .from(accounts)
+    .where(eq(accounts.id, accountId))
+    .limit(1);
+
+  if (!account) {
+    return null;
+  }
+
+  await redis.set(statusCacheKey(accountId), account.status, 'EX', STATUS_CACHE_TTL_SECONDS);
+  return account.status;
+}
+
+export function getBlockedStatusError(status: AccountStatus): AccountStatusError | null {
+  return BLOCKED_STATUS_ERRORS[status] ?? null;
+}
+
+/**
+ * Changes the account status and records the reason as an `account_<status>` action
+ * against the account's owner.
+ *
+ * Throws ACCOUNT_NOT_FOUND.
+ */
+export async function setAccountStatus(
+  accountId: string,
+  status: AccountStatus,
+  reason: string,
+  changedBy: string
+): Promise<{ previousStatus: AccountStatus; status: AccountStatus }> {
+  const [existing] = await db
+    .select({ status: accounts.status })
+    .from(accounts)
+    .where(eq(accounts.id, accountId))
+    .limit(1);
+
+  if (!existing) {
+    throw new Error('ACCOUNT_NOT_FOUND');
+  }
+
+  await db
+    .update(accounts)
+    .set({ status, updated_at: new Date() })
+    .where(eq(accounts.id, accountId));
+  await redis.del(statusCacheKey(accountId));
+
+  const ownerId = await getAccountOwnerId(accountId);
+  if (ownerId) {
+    await db.insert(actions).values({
+      account_id: accountId,
+      user_id: ownerId,
+      action_type: status === 'active' ? 'account_reinstated' : `account_${status}`,
+      metadata: { reason, previous_status: existing.status, status, changed_by: changedBy },
+      ip_address: null,
+      user_agent: null,
+    });
+  }
+
+  return { previousStatus: existing.status, status };
+}
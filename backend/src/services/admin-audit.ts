@@ -0,0 +1,61 @@
+import { and, desc, eq, lt, type SQL } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { adminAuditLog, type NewAdminAuditEntry } from '../db/schema.js';
+
+export interface AdminAuditSummary {
+  id: string;
+  actor: string;
+  action: string;
+  accountId: string | null;
+  statusCode: number;
+  metadata: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AdminAuditFilters {
+  accountId?: string;
+  actor?: string;
+  before?: string;
+  limit: number;
+}
+
+export async function recordAdminAudit(entry: NewAdminAuditEntry): Promise<void> {
+  await db.insert(adminAuditLog).values(entry);
+}
+
+/**
+ * Audit entries, newest first. `before` pages further back.
+ */
+export async function listAdminAudit(filters: AdminAuditFilters): Promise<AdminAuditSummary[]> {
+  const conditions: SQL[] = [];
+  if (filters.accountId) {
+    conditions.push(eq(adminAuditLog.account_id, filters.accountId));
+  }
+  if (filters.actor) {
+    conditions.push(eq(adminAuditLog.actor, filters.actor));
+  }
+  if (filters.before) {
+    conditions.push(lt(adminAuditLog.created_at, new Date(filters.before)));
+  }
+
+  const rows = await db
+    .select()
+    .from(adminAuditLog)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(adminAuditLog.created_at))
+    .limit(filters.limit);
+
+  return rows.map((row) => ({
+    id: row.id,
+    actor: row.actor,
+    action: row.action,
+    accountId: row.account_id,
+    statusCode: row.status_code,
+    metadata: row.metadata,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
@@ -0,0 +1,151 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { adminApiKeys, type AdminApiKey } from '../db/schema.js';
+import { ADMIN_SCOPES, type AdminScope } from '../types/index.js';
+
+export interface AdminKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: AdminScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface AdminIdentity {
+  keyId: string;
+  name: string;
+  scopes: AdminScope[];
+}
+
+// Keys look like adm_<prefix>_<secret>; the prefix locates the row, the hash proves the secret.
+const KEY_PATTERN = /^adm_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toAdminScopes(value: unknown): AdminScope[] {
+  return Array.isArray(value)
+    ? value.filter((scope): scope is AdminScope => ADMIN_SCOPES.includes(scope as AdminScope))
+    : [];
+}
+
+/**
+ * Returns the prefix of a well-formed admin key, e.g. for attributing rejected calls.
+ */
+export function getAdminKeyPrefix(key: string): string | null {
+  return KEY_PATTERN.exec(key)?.[1] ?? null;
+}
+
+/**
+ * Mints a key for `name`. The returned key is not stored and cannot be shown again.
+ */
+export async function createAdminKey(
+  name: string,
+  scopes: AdminScope[],
+  expiresAt: Date | null
+): Promise<{ key: string; adminKey: AdminKeySummary }> {
+  const prefix = randomBytes(6).toString('hex');
+  const key = `adm_${prefix}_${randomBytes(32).toString('base64url')}`;
+
+  const [created] = await db
+    .insert(adminApiKeys)
+    .values({
+      name,
+      key_prefix: prefix,
+      key_hash: hashKey(key),
+      scopes: [...new Set(scopes)],
+      expires_at: expiresAt,
+    })
+    .returning();
+
+  return { key, adminKey: toAdminKeySummary(created) };
+}
+
+/**
+ * Throws ADMIN_KEY_NOT_FOUND.
+ */
+export async function revokeAdminKey(keyId: string): Promise<AdminKeySummary> {
+  const [existing] = await db
+    .select()
+    .from(adminApiKeys)
+    .where(eq(adminApiKeys.id, keyId))
+    .limit(1);
+
+  if (!existing) {
+    throw new Error('ADMIN_KEY_NOT_FOUND');
+  }
+
+  if (existing.revoked_at) {
+    return toAdminKeySummary(existing);
+  }
+
+  const [revoked] = await db
+    .update(adminApiKeys)
+    .set({ revoked_at: new Date() })
+    .where(eq(adminApiKeys.id, keyId))
+    .returning();
+
+  return toAdminKeySummary(revoked);
+}
+
+export async function listAdminKeys(): Promise<AdminKeySummary[]> {
+  const rows = await db.select().from(adminApiKeys).orderBy(desc(adminApiKeys.created_at));
+  return rows.map(toAdminKeySummary);
+}
+
+/**
+ * Resolves a presented key to its admin identity and stamps last_used_at.
+ * Returns null for unknown, malformed, revoked or expired keys.
+ */
+export async function authenticateAdminKey(key: string): Promise<AdminIdentity | null> {
+  const match = KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+
+  const [row] = await db
+    .select()
+    .from(adminApiKeys)
+    .where(eq(adminApiKeys.key_prefix, match[1]))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const expected = Buffer.from(row.key_hash, 'hex');
+  const actual = Buffer.from(hashKey(key), 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const now = new Date();
+  if (row.revoked_at || (row.expires_at && row.expires_at <= now)) {
+    return null;
+  }
+
+  await db
+    .update(adminApiKeys)
+    .set({ last_used_at: now })
+    .where(eq(adminApiKeys.id, row.id));
+
+  return { keyId: row.id, name: row.name, scopes: toAdminScopes(row.scopes) };
+}
+
+function toAdminKeySummary(row: AdminApiKey): AdminKeySummary {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: toAdminScopes(row.scopes),
+    expiresAt: row.expires_at ? row.expires_at.toISOString() : null,
+    lastUsedAt: row.last_used_at ? row.last_used_at.toISOString() : null,
+    revokedAt: row.revoked_at ? row.revoked_at.toISOString() : null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
@@ -0,0 +1,270 @@
+import { and, asc, desc, eq, inArray, lt, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { accounts, actions, users, type Account, type User } from '../db/schema.js';
+import { redis } from '../redis/client.js';
+import { getEntitlements } from './entitlements.js';
+import { getAccountPlan, type AccountPlan } from './plan.js';
+import { revokeAllAccountSessions } from './sessions.js';
+import {
+  dailyRequestKey,
+  dailyUserRequestKey,
+  getUsageSnapshot,
+  type UsageSnapshot,
+} from './usage.js';
+
+export interface AdminUserSummary {
+  id: string;
+  email: string | null;
+  emailVerifiedAt: string | null;
+  role: string;
+  deviceFingerprint: string;
+  createdAt: string;
+  lastSeenAt: string | null;
+}
+
+export interface AdminAccountSummary {
+  id: string;
+  plan: string;
+  planExpiresAt: string | null;
+  status: string;
+  limitOverrides: RateLimitOverrides;
+  createdAt: string;
+  updatedAt: string;
+  users: AdminUserSummary[];
+}
+
+export interface AdminAccountUsage {
+  usage: UsageSnapshot;
+  limits: { account: number; user: number };
+  users: Array<{ userId: string; requestsToday: number }>;
+}
+
+export interface AdminActionEntry {
+  id: string;
+  userId: string;
+  threadId: string | null;
+  actionType: string;
+  metadata: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface RateLimitOverrides {
+  dailyRequests: number | null;
+  userDailyRequests: number | null;
+}
+
+const SEARCH_RESULT_LIMIT = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Finds accounts by account id, user id, email (substring) or exact device fingerprint.
+ */
+export async function searchAccounts(query: string): Promise<AdminAccountSummary[]> {
+  const term = query.trim();
+  const pattern = `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+  const conditions: SQL[] = [
+    sql`${users.email} ILIKE ${pattern}`,
+    eq(users.device_fingerprint, term),
+  ];
+  if (UUID_PATTERN.test(term)) {
+    conditions.push(eq(users.account_id, term), eq(users.id, term));
+  }
+
+  const matches = await db
+    .selectDistinct({ accountId: users.account_id })
+    .from(users)
+    .where(or(...conditions))
+    .limit(SEARCH_RESULT_LIMIT);
+
+  return loadAccountSummaries(matches.map((match) => match.accountId));
+}
+
+export async function getAdminAccount(accountId: string): Promise<AdminAccountSummary | null> {
+  const [summary] = await loadAccountSummaries([accountId]);
+  return summary ?? null;
+}
+
+/**
+ * Today's account-wide usage plus each user's share of the daily request counter.
+ *
+ * Throws ACCOUNT_NOT_FOUND.
+ */
+export async function getAdminAccountUsage(accountId: string): Promise<AdminAccountUsage> {
+  const accountPlan = await loadAccountPlan(accountId);
+  const members = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.account_id, accountId))
+    .orderBy(asc(users.created_at));
+
+  const [usage, userCounts] = await Promise.all([
+    getUsageSnapshot(accountId, null, accountPlan),
+    members.length > 0
+      ? redis.mget(...members.map((member) => dailyUserRequestKey(accountId, member.id)))
+      : Promise.resolve([]),
+  ]);
+
+  const entitlements = getEntitlements(accountPlan);
+
+  return {
+    usage,
+    limits: { account: entitlements.dailyRequests, user: entitlements.userDailyRequests },
+    users: members.map((member, index) => ({
+      userId: member.id,
+      requestsToday: parseInt(userCounts[index] ?? '0', 10) || 0,
+    })),
+  };
+}
+
+/**
+ * The account's most recent actions, newest first. `before` pages further back.
+ */
+export async function listAccountActions(
+  accountId: string,
+  options: { limit: number; actionType?: string; before?: string }
+): Promise<AdminActionEntry[]> {
+  const conditions: SQL[] = [eq(actions.account_id, accountId)];
+  if (options.actionType) {
+    conditions.push(eq(actions.action_type, options.actionType));
+  }
+  if (options.before) {
+    conditions.push(lt(actions.created_at, new Date(options.before)));
+  }
+
+  const rows = await db
+    .select()
+    .from(actions)
+    .where(and(...conditions))
+    .orderBy(desc(actions.created_at))
+    .limit(options.limit);
+
+  return rows.map((row) => ({
+    id: row.id,
+    userId: row.user_id,
+    threadId: row.thread_id,
+    actionType: row.action_type,
+    metadata: row.metadata,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+/**
+ * Replaces the account's daily request limit overrides; null restores the plan default.
+ *
+ * Throws ACCOUNT_NOT_FOUND.
+ */
+export async function setRateLimitOverrides(
+  accountId: string,
+  overrides: RateLimitOverrides
+): Promise<{ previous: RateLimitOverrides; current: RateLimitOverrides }> {
+  const [existing] = await db
+    .select({
+      dailyRequests: accounts.daily_request_limit,
+      userDailyRequests: accounts.user_daily_request_limit,
+    })
+    .from(accounts)
+    .where(eq(accounts.id, accountId))
+    .limit(1);
+
+  if (!existing) {
+    throw new Error('ACCOUNT_NOT_FOUND');
+  }
+
+  await db
+    .update(accounts)
+    .set({
+      daily_request_limit: overrides.dailyRequests,
+      user_daily_request_limit: overrides.userDailyRequests,
+      updated_at: new Date(),
+    })
+    .where(eq(accounts.id, accountId));
+
+  return { previous: existing, current: overrides };
+}
+
+/**
+ * Clears today's request counters for the account and each of its users.
+ * Returns the number of counters that were removed.
+ *
+ * Throws ACCOUNT_NOT_FOUND.
+ */
+export async function resetDailyRequestCounters(accountId: string): Promise<number> {
+  await loadAccountPlan(accountId);
+
+  const members = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.account_id, accountId));
+
+  return redis.del(
+    dailyRequestKey(accountId),
+    ...members.map((member) => dailyUserRequestKey(accountId, member.id))
+  );
+}
+
+/**
+ * Signs every device on the account out by revoking its sessions; their access tokens
+ * stop working immediately and their refresh tokens can no longer be rotated.
+ *
+ * Throws ACCOUNT_NOT_FOUND.
+ */
+export async function revokeAccountTokens(accountId: string): Promise<number> {
+  await loadAccountPlan(accountId);
+  return revokeAllAccountSessions(accountId, 'revoked_by_admin');
+}
+
+async function loadAccountPlan(accountId: string): Promise<AccountPlan> {
+  try {
+    return await getAccountPlan(accountId);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Account not found') {
+      throw new Error('ACCOUNT_NOT_FOUND');
+    }
+    throw error;
+  }
+}
+
+async function loadAccountSummaries(accountIds: string[]): Promise<AdminAccountSummary[]> {
+  if (accountIds.length === 0) {
+    return [];
+  }
+
+  const [accountRows, userRows] = await Promise.all([
+    db.select().from(accounts).where(inArray(accounts.id, accountIds)).orderBy(desc(accounts.created_at)),
+    db.select().from(users).where(inArray(users.account_id, accountIds)).orderBy(asc(users.created_at)),
+  ]);
+
+  return accountRows.map((account) => toAccountSummary(
+    account,
+    userRows.filter((user) => user.account_id === account.id)
+  ));
+}
+
+function toAccountSummary(account: Account, members: User[]): AdminAccountSummary {
+  return {
+    id: account.id,
+    plan: account.plan,
+    planExpiresAt: account.plan_expires_at ? account.plan_expires_at.toISOString() : null,
+    status: account.status,
+    limitOverrides: {
+      dailyRequests: account.daily_request_limit,
+      userDailyRequests: account.user_daily_request_limit,
+    },
+    createdAt: account.created_at.toISOString(),
+    updatedAt: account.updated_at.toISOString(),
+    users: members.map((user) => ({
+      id: user.id,
+      email: user.email,
+      emailVerifiedAt: user.email_verified_at ? user.email_verified_at.toISOString() : null,
+      role: user.role,
+      deviceFingerprint: user.device_fingerprint,
+      createdAt: user.created_at.toISOString(),
+      lastSeenAt: user.last_seen_at ? user.last_seen_at.toISOString() : null,
+    })),
+  };
+}
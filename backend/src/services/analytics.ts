@@ -0,0 +1,308 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db/client.js';
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface SuggestionStats {
+  requests: number;
+  generated: number;
+  feedback: {
+    accepted: number;
+    edited: number;
+    rejected: number;
+  };
+  /** Share of suggestions with feedback that were sent unchanged / edited / dismissed. */
+  acceptanceRate: number | null;
+  editRate: number | null;
+  rejectRate: number | null;
+  /** Share of generated suggestions that were sent, with or without edits. */
+  sentRate: number | null;
+  avgIntentScore: number | null;
+  durationMs: {
+    p50: number | null;
+    p95: number | null;
+  };
+  tokens: {
+    total: number;
+    input: number;
+    output: number;
+  };
+}
+
+export interface ErrorBreakdown {
+  errorType: string;
+  count: number;
+  messages: Array<{ message: string; count: number }>;
+}
+
+export interface AnalyticsSummary {
+  range: { from: string; to: string };
+  totals: SuggestionStats;
+  byGoal: Array<SuggestionStats & { conversationGoal: string }>;
+  byPreset: Array<SuggestionStats & { presetId: string | null }>;
+  errors: ErrorBreakdown[];
+}
+
+type Row = Record<string, unknown>;
+
+const MESSAGES_PER_ERROR_TYPE = 5;
+
+/**
+ * Aggregates the account's suggestion actions over [from, to).
+ *
+ * Goal and preset come from the `suggestion_requested` / `suggestion_generated` metadata;
+ * feedback rows are attributed through the generated row with the same job_id.
+ * Rows logged before that metadata existed are grouped under goal `unknown`.
+ */
+export async function getAnalyticsSummary(
+  accountId: string,
+  range: AnalyticsRange
+): Promise<AnalyticsSummary> {
+  const [generationRows, feedbackRows, errorRows] = await Promise.all([
+    queryGenerationStats(accountId, range),
+    queryFeedbackStats(accountId, range),
+    queryErrors(accountId, range),
+  ]);
+
+  const stats = new Map<string, SuggestionStats>();
+  const statsFor = (key: string): SuggestionStats => {
+    const existing = stats.get(key);
+    if (existing) return existing;
+    const created = emptyStats();
+    stats.set(key, created);
+    return created;
+  };
+
+  for (const row of generationRows) {
+    const target = statsFor(groupKey(row));
+    target.requests = toNumber(row.requests);
+    target.generated = toNumber(row.generated);
+    target.avgIntentScore = toNullableNumber(row.avg_intent_score, 2);
+    target.durationMs = {
+      p50: toNullableNumber(row.p50_duration_ms, 0),
+      p95: toNullableNumber(row.p95_duration_ms, 0),
+    };
+    target.tokens = {
+      total: toNumber(row.total_tokens),
+      input: toNumber(row.input_tokens),
+      output: toNumber(row.output_tokens),
+    };
+  }
+
+  for (const row of feedbackRows) {
+    statsFor(groupKey(row)).feedback = {
+      accepted: toNumber(row.accepted),
+      edited: toNumber(row.edited),
+      rejected: toNumber(row.rejected),
+    };
+  }
+
+  const byGoal: AnalyticsSummary['byGoal'] = [];
+  const byPreset: AnalyticsSummary['byPreset'] = [];
+
+  for (const [key, value] of stats) {
+    const withRates = applyRates(value);
+    const [kind, id] = splitGroupKey(key);
+    if (kind === 'goal') {
+      byGoal.push({ conversationGoal: id ?? 'unknown', ...withRates });
+    } else if (kind === 'preset') {
+      byPreset.push({ presetId: id, ...withRates });
+    }
+  }
+
+  byGoal.sort((a, b) => b.requests - a.requests);
+  byPreset.sort((a, b) => b.requests - a.requests);
+
+  return {
+    range: { from: range.from.toISOString(), to: range.to.toISOString() },
+    totals: applyRates(stats.get('total') ?? emptyStats()),
+    byGoal,
+    byPreset,
+    errors: toErrorBreakdown(errorRows),
+  };
+}
+
+async function queryGenerationStats(accountId: string, range: AnalyticsRange): Promise<Row[]> {
+  const { from, to } = toSqlRange(range);
+  return db.execute<Row>(sql`
+    WITH scoped AS (
+      SELECT
+        action_type,
+        COALESCE(metadata->>'conversation_goal', 'unknown') AS goal,
+        metadata->>'preset_id' AS preset,
+        (metadata->>'intent_score')::numeric AS intent_score,
+        (metadata->>'duration_ms')::numeric AS duration_ms,
+        COALESCE((metadata->>'tokens_used')::bigint, 0) AS total_tokens,
+        COALESCE((metadata->>'input_tokens')::bigint, 0) AS input_tokens,
+        COALESCE((metadata->>'output_tokens')::bigint, 0) AS output_tokens
+      FROM actions
+      WHERE account_id = ${accountId}
+        AND created_at >= ${from}::timestamp
+        AND created_at < ${to}::timestamp
+        AND action_type IN ('suggestion_requested', 'suggestion_generated')
+    )
+    SELECT
+      GROUPING(goal) AS goal_rollup,
+      GROUPING(preset) AS preset_rollup,
+      goal,
+      preset,
+      COUNT(*) FILTER (WHERE action_type = 'suggestion_requested') AS requests,
+      COUNT(*) FILTER (WHERE action_type = 'suggestion_generated') AS generated,
+      AVG(intent_score) FILTER (WHERE action_type = 'suggestion_generated') AS avg_intent_score,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms)
+        FILTER (WHERE action_type = 'suggestion_generated') AS p50_duration_ms,
+      percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms)
+        FILTER (WHERE action_type = 'suggestion_generated') AS p95_duration_ms,
+      SUM(total_tokens) AS total_tokens,
+      SUM(input_tokens) AS input_tokens,
+      SUM(output_tokens) AS output_tokens
+    FROM scoped
+    GROUP BY GROUPING SETS ((goal), (preset), ())
+  `);
+}
+
+async function queryFeedbackStats(accountId: string, range: AnalyticsRange): Promise<Row[]> {
+  const { from, to } = toSqlRange(range);
+  return db.execute<Row>(sql`
+    WITH scoped AS (
+      SELECT
+        feedback.action_type,
+        COALESCE(generated.metadata->>'conversation_goal', 'unknown') AS goal,
+        generated.metadata->>'preset_id' AS preset
+      FROM actions feedback
+      LEFT JOIN actions generated
+        ON generated.account_id = feedback.account_id
+        AND generated.action_type = 'suggestion_generated'
+        AND generated.metadata->>'job_id' = feedback.metadata->>'job_id'
+        -- Suggestion results live for a day, so feedback never trails its generation by more.
+        AND generated.created_at >= ${from}::timestamp - interval '1 day'
+        AND generated.created_at < ${to}::timestamp
+      WHERE feedback.account_id = ${accountId}
+        AND feedback.created_at >= ${from}::timestamp
+        AND feedback.created_at < ${to}::timestamp
+        AND feedback.action_type IN ('suggestion_accepted', 'suggestion_edited', 'suggestion_rejected')
+    )
+    SELECT
+      GROUPING(goal) AS goal_rollup,
+      GROUPING(preset) AS preset_rollup,
+      goal,
+      preset,
+      COUNT(*) FILTER (WHERE action_type = 'suggestion_accepted') AS accepted,
+      COUNT(*) FILTER (WHERE action_type = 'suggestion_edited') AS edited,
+      COUNT(*) FILTER (WHERE action_type = 'suggestion_rejected') AS rejected
+    FROM scoped
+    GROUP BY GROUPING SETS ((goal), (preset), ())
+  `);
+}
+
+async function queryErrors(accountId: string, range: AnalyticsRange): Promise<Row[]> {
+  const { from, to } = toSqlRange(range);
+  return db.execute<Row>(sql`
+    SELECT
+      COALESCE(metadata->>'error_type', 'unknown') AS error_type,
+      COALESCE(metadata->>'error_message', '') AS error_message,
+      COUNT(*) AS count
+    FROM actions
+    WHERE account_id = ${accountId}
+      AND created_at >= ${from}::timestamp
+      AND created_at < ${to}::timestamp
+      AND action_type = 'error'
+    GROUP BY 1, 2
+    ORDER BY count DESC
+  `);
+}
+
+// actions.created_at is a UTC timestamp without time zone.
+function toSqlRange(range: AnalyticsRange): { from: string; to: string } {
+  return { from: range.from.toISOString(), to: range.to.toISOString() };
+}
+
+function toErrorBreakdown(rows: Row[]): ErrorBreakdown[] {
+  const byType = new Map<string, ErrorBreakdown>();
+
+  for (const row of rows) {
+    const errorType = String(row.error_type);
+    const count = toNumber(row.count);
+    const entry = byType.get(errorType) ?? { errorType, count: 0, messages: [] };
+
+    entry.count += count;
+    if (entry.messages.length < MESSAGES_PER_ERROR_TYPE) {
+      entry.messages.push({ message: String(row.error_message), count });
+    }
+    byType.set(errorType, entry);
+  }
+
+  return [...byType.values()].sort((a, b) => b.count - a.count);
+}
+
+// Grouping-set rows are keyed as `total`, `goal:<goal>` or `preset:<id>` (empty id = no preset).
+function groupKey(row: Row): string {
+  if (toNumber(row.goal_rollup) === 0) {
+    return `goal:${String(row.goal)}`;
+  }
+
+  if (toNumber(row.preset_rollup) === 0) {
+    return `preset:${typeof row.preset === 'string' ? row.preset : ''}`;
+  }
+
+  return 'total';
+}
+
+function splitGroupKey(key: string): [string, string | null] {
+  const separator = key.indexOf(':');
+  if (separator === -1) {
+    return [key, null];
+  }
+
+  const id = key.slice(separator + 1);
+  return [key.slice(0, separator), id.length > 0 ? id : null];
+}
+
+function applyRates(stats: SuggestionStats): SuggestionStats {
+  const { accepted, edited, rejected } = stats.feedback;
+  const feedbackTotal = accepted + edited + rejected;
+
+  return {
+    ...stats,
+    acceptanceRate: ratio(accepted, feedbackTotal),
+    editRate: ratio(edited, feedbackTotal),
+    rejectRate: ratio(rejected, feedbackTotal),
+    sentRate: ratio(accepted + edited, stats.generated),
+  };
+}
+
+function emptyStats(): SuggestionStats {
+  return {
+    requests: 0,
+    generated: 0,
+    feedback: { accepted: 0, edited: 0, rejected: 0 },
+    acceptanceRate: null,
+    editRate: null,
+    rejectRate: null,
+    sentRate: null,
+    avgIntentScore: null,
+    durationMs: { p50: null, p95: null },
+    tokens: { total: 0, input: 0, output: 0 },
+  };
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toNullableNumber(value: unknown, decimals: number): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const factor = 10 ** decimals;
+  return Math.round(toNumber(value) * factor) / factor;
+}
@@ -0,0 +1,262 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { accounts, actions, billingEvents } from '../db/schema.js';
+import type { PlanTier } from './plan.js';
+import { getAccountOwnerId } from './team.js';
+
+export type BillingTransition = 'created' | 'renewed' | 'cancelled' | 'past_due';
+
+export interface BillingEvent {
+  id: string;
+  type: string;
+  /** Unix seconds. */
+  created: number;
+  data: { object: Record<string, unknown> };
+}
+
+export interface BillingEventResult {
+  status: 'processed' | 'duplicate' | 'ignored';
+  accountId: string | null;
+  transition: BillingTransition | null;
+  /** Why an event was ignored. */
+  reason?: string;
+}
+
+interface SubscriptionDetails {
+  subscriptionId: string | null;
+  accountId: string | null;
+  plan: PlanTier | null;
+  periodEnd: Date | null;
+  /** Set while the subscription is in a free trial. */
+  trialEnd: Date | null;
+}
+
+// Matches Stripe's default tolerance for replayed signatures.
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+// Renewal payments land shortly after the period ends; keep the plan until they do.
+const RENEWAL_LEEWAY_MS = 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Builds a Stripe-style `t=<unix>,v1=<hex hmac>` signature header for `payload`.
+ */
+export function signBillingPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Checks a Stripe-style signature header against the raw request body.
+ *
+ * Throws BILLING_SIGNATURE_INVALID.
+ */
+export function verifyBillingSignature(payload: string, header: string, secret: string, now: number = Date.now()): void {
+  const parts = header.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key, value]) => key === 'v1' && value).map(([, value]) => value);
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new Error('BILLING_SIGNATURE_INVALID');
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new Error('BILLING_SIGNATURE_INVALID');
+  }
+
+  const expected = Buffer.from(signBillingPayload(payload, secret, timestamp).split('v1=')[1], 'hex');
+  const matches = signatures.some((signature) => {
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+
+  if (!matches) {
+    throw new Error('BILLING_SIGNATURE_INVALID');
+  }
+}
+
+/**
+ * Applies a subscription event to the account named in the subscription's
+ * `metadata.account_id`. Each event id is applied at most once, and an event created before the
+ * newest one already applied to the account is recorded but not applied, since the provider
+ * does not guarantee delivery order.
+ */
+export async function handleBillingEvent(event: BillingEvent): Promise<BillingEventResult> {
+  const object = event.data.object;
+  const transition = classifyEvent(event.type, object);
+  if (!transition) {
+    return { status: 'ignored', accountId: null, transition: null, reason: 'unhandled event type' };
+  }
+
+  const details = event.type.startsWith('invoice.') ? readInvoice(object) : readSubscription(object);
+  if (!details.accountId || !UUID_PATTERN.test(details.accountId)) {
+    return { status: 'ignored', accountId: null, transition, reason: 'missing metadata.account_id' };
+  }
+
+  const accountId = details.accountId;
+  const createdAt = new Date(event.created * 1000);
+  const ownerId = await getAccountOwnerId(accountId);
+
+  return db.transaction(async (tx): Promise<BillingEventResult> => {
+    // Locked so concurrent events for the account apply one after the other.
+    const [account] = await tx
+      .select()
+      .from(accounts)
+      .where(eq(accounts.id, accountId))
+      .limit(1)
+      .for('update');
+
+    if (!account) {
+      return { status: 'ignored', accountId, transition, reason: 'account not found' };
+    }
+
+    let plan: PlanTier = account.plan;
+    let expiresAt: Date | null = account.plan_expires_at;
+    let trialEndsAt: Date | null = account.trial_ends_at;
+    let autoRenews = account.plan_auto_renews;
+
+    if (transition === 'created' || transition === 'renewed') {
+      if (!details.plan) {
+        return { status: 'ignored', accountId: account.id, transition, reason: 'unknown plan' };
+      }
+      plan = details.plan;
+      expiresAt = details.periodEnd ? new Date(details.periodEnd.getTime() + RENEWAL_LEEWAY_MS) : null;
+      trialEndsAt = details.trialEnd;
+      autoRenews = true;
+    } else if (transition === 'cancelled') {
+      autoRenews = false;
+      // Cancelling at period end keeps the plan until then; getAccountPlan downgrades on expiry.
+      const endsLater = object.cancel_at_period_end === true && object.status !== 'canceled' &&
+        event.type !== 'customer.subscription.deleted';
+      if (endsLater && details.periodEnd) {
+        expiresAt = details.periodEnd;
+      } else {
+        plan = 'free';
+        expiresAt = null;
+        trialEndsAt = null;
+      }
+    }
+
+    const [claimed] = await tx
+      .insert(billingEvents)
+      .values({ id: event.id, type: event.type, account_id: account.id })
+      .onConflictDoNothing()
+      .returning({ id: billingEvents.id });
+
+    if (!claimed) {
+      return { status: 'duplicate', accountId: account.id, transition };
+    }
+
+    if (account.billing_event_at && createdAt < account.billing_event_at) {
+      return { status: 'ignored', accountId: account.id, transition, reason: 'older than the last applied event' };
+    }
+
+    await tx
+      .update(accounts)
+      .set({
+        plan,
+        plan_tier: plan,
+        plan_expires_at: expiresAt,
+        trial_ends_at: trialEndsAt,
+        plan_auto_renews: autoRenews,
+        billing_event_at: createdAt,
+        updated_at: new Date(),
+      })
+      .where(eq(accounts.id, account.id));
+
+    if (ownerId) {
+      await tx.insert(actions).values({
+        account_id: account.id,
+        user_id: ownerId,
+        action_type: `subscription_${transition}`,
+        metadata: {
+          event_id: event.id,
+          event_type: event.type,
+          event_created_at: createdAt.toISOString(),
+          subscription_id: details.subscriptionId,
+          previous_plan: account.plan,
+          plan,
+          previous_plan_expires_at: account.plan_expires_at ? account.plan_expires_at.toISOString() : null,
+          plan_expires_at: expiresAt ? expiresAt.toISOString() : null,
+          trial_ends_at: trialEndsAt ? trialEndsAt.toISOString() : null,
+        },
+        ip_address: null,
+        user_agent: null,
+      });
+    }
+
+    return { status: 'processed', accountId: account.id, transition };
+  });
+}
+
+function classifyEvent(type: string, object: Record<string, unknown>): BillingTransition | null {
+  switch (type) {
+    case 'customer.subscription.created':
+      return 'created';
+    case 'customer.subscription.deleted':
+      return 'cancelled';
+    case 'invoice.paid':
+      return 'renewed';
+    case 'invoice.payment_failed':
+      return 'past_due';
+    case 'customer.subscription.updated':
+      if (object.status === 'past_due' || object.status === 'unpaid') {
+        return 'past_due';
+      }
+      if (object.status === 'canceled' || object.status === 'incomplete_expired' || object.cancel_at_period_end === true) {
+        return 'cancelled';
+      }
+      return object.status === 'active' || object.status === 'trialing' ? 'renewed' : null;
+    default:
+      return null;
+  }
+}
+
+function readSubscription(subscription: Record<string, unknown>): SubscriptionDetails {
+  const metadata = asRecord(subscription.metadata);
+  const items = asRecord(subscription.items);
+  const firstItem = Array.isArray(items.data) ? asRecord(items.data[0]) : {};
+
+  return {
+    subscriptionId: typeof subscription.id === 'string' ? subscription.id : null,
+    accountId: typeof metadata.account_id === 'string' ? metadata.account_id : null,
+    plan: toPaidPlan(metadata.plan) ?? toPaidPlan(asRecord(firstItem.price).lookup_key),
+    periodEnd: fromUnixSeconds(subscription.current_period_end),
+    trialEnd: subscription.status === 'trialing' ? fromUnixSeconds(subscription.trial_end) : null,
+  };
+}
+
+function readInvoice(invoice: Record<string, unknown>): SubscriptionDetails {
+  const metadata = asRecord(asRecord(invoice.subscription_details).metadata);
+  const lines = asRecord(invoice.lines);
+  const firstLine = Array.isArray(lines.data) ? asRecord(lines.data[0]) : {};
+  const lineMetadata = asRecord(firstLine.metadata);
+
+  return {
+    subscriptionId: typeof invoice.subscription === 'string' ? invoice.subscription : null,
+    accountId: typeof metadata.account_id === 'string'
+      ? metadata.account_id
+      : typeof lineMetadata.account_id === 'string' ? lineMetadata.account_id : null,
+    plan: toPaidPlan(metadata.plan) ?? toPaidPlan(lineMetadata.plan) ?? toPaidPlan(asRecord(firstLine.price).lookup_key),
+    periodEnd: fromUnixSeconds(asRecord(firstLine.period).end),
+    trialEnd: null,
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+function toPaidPlan(value: unknown): PlanTier | null {
+  return value === 'pro' || value === 'enterprise' ? value : null;
+}
+
+function fromUnixSeconds(value: unknown): Date | null {
+  return typeof value === 'number' && Number.isFinite(value) ? new Date(value * 1000) : null;
+}
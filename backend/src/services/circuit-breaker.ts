@@ -1,41 +1,72 @@
+import { randomBytes } from 'node:crypto';
 import { redis } from '../redis/client.js';
 
 export type CircuitState = 'closed' | 'open' | 'half_open';
 
 export interface CircuitBreakerSnapshot {
+  provider: string;
+  model: string;
   state: CircuitState;
-  failureCount: number;
-  lastFailureAt: number | null;
+  /** Opened by an admin; stays open until an admin closes it. */
+  forced: boolean;
+  /** Outcomes counted in the rolling window (failures that do not trip are not counted). */
+  window: { requests: number; failures: number; failureRate: number };
+  openedAt: number | null;
   nextAttemptAt: number | null;
+  lastFailureAt: number | null;
+  lastFailureReason: string | null;
+}
+
+type StoredCircuit = Pick<
+  CircuitBreakerSnapshot,
+  'state' | 'forced' | 'openedAt' | 'nextAttemptAt' | 'lastFailureAt' | 'lastFailureReason'
+>;
+
+// The circuit opens when at least CIRCUIT_MIN_REQUESTS calls in the last CIRCUIT_WINDOW_MS
+// include a CIRCUIT_FAILURE_RATE share of failures, then admits one probe after CIRCUIT_OPEN_DURATION_MS.
+const FAILURE_RATE_THRESHOLD = parseFloat(process.env.CIRCUIT_FAILURE_RATE || '0.5');
+const MIN_REQUESTS = parseInt(process.env.CIRCUIT_MIN_REQUESTS || '5', 10);
+const WINDOW_MS = parseInt(process.env.CIRCUIT_WINDOW_MS || '60000', 10);
+const OPEN_DURATION_MS = parseInt(process.env.CIRCUIT_OPEN_DURATION_MS || '30000', 10);
+
+const CIRCUIT_INDEX_KEY = 'circuit:index';
+
+function circuitId(provider: string, model: string): string {
+  return `${provider}:${model}`;
 }
 
-const CIRCUIT_KEY = 'claude:circuit';
-const FAILURE_THRESHOLD = 3;
-const OPEN_DURATION_MS = 30_000;
-const HALF_OPEN_MAX_FAILURES = 1;
-const STATE_TTL_SECONDS = 120;
+function stateKey(id: string): string {
+  return `circuit:${id}:state`;
+}
+
+function windowKey(id: string): string {
+  return `circuit:${id}:window`;
+}
 
-function getDefaultState(): CircuitBreakerSnapshot {
+function probeKey(id: string): string {
+  return `circuit:${id}:probe`;
+}
+
+function getDefaultState(): StoredCircuit {
   return {
     state: 'closed',
-    failureCount: 0,
-    lastFailureAt: null,
+    forced: false,
+    openedAt: null,
     nextAttemptAt: null,
+    lastFailureAt: null,
+    lastFailureReason: null,
   };
 }
 
-async function loadState(): Promise<CircuitBreakerSnapshot> {
-  const raw = await redis.get(CIRCUIT_KEY);
+async function loadState(id: string): Promise<StoredCircuit> {
+  const raw = await redis.get(stateKey(id));
   if (!raw) {
     return getDefaultState();
   }
   try {
-    const parsed = JSON.parse(raw) as CircuitBreakerSnapshot;
-    if (
-      (parsed.state === 'closed' || parsed.state === 'open' || parsed.state === 'half_open') &&
-      typeof parsed.failureCount === 'number'
-    ) {
-      return parsed;
+    const parsed = JSON.parse(raw) as StoredCircuit;
+    if (parsed.state === 'closed' || parsed.state === 'open' || parsed.state === 'half_open') {
+      return { ...getDefaultState(), ...parsed };
     }
   } catch {
     // Ignore invalid JSON
@@ -43,68 +74,223 @@ async function loadState(): Promise<CircuitBreakerSnapshot> {
   return getDefaultState();
 }
 
-async function saveState(state: CircuitBreakerSnapshot): Promise<void> {
-  await redis.set(CIRCUIT_KEY, JSON.stringify(state), 'EX', STATE_TTL_SECONDS);
+// State is stored without a TTL so an open circuit only closes through a probe or an admin.
+async function saveState(id: string, state: StoredCircuit): Promise<void> {
+  await redis
+    .multi()
+    .set(stateKey(id), JSON.stringify(state))
+    .sadd(CIRCUIT_INDEX_KEY, id)
+    .exec();
 }
 
-export async function assertCircuitClosed(): Promise<void> {
-  const now = Date.now();
-  const state = await loadState();
+/**
+ * Adds an outcome to the circuit's rolling window and returns the window's counts.
+ */
+async function recordOutcome(
+  id: string,
+  outcome: 'success' | 'failure',
+  now: number
+): Promise<CircuitBreakerSnapshot['window']> {
+  const key = windowKey(id);
+  const results = await redis
+    .multi()
+    .zadd(key, now, `${now}:${outcome}:${randomBytes(4).toString('hex')}`)
+    .zremrangebyscore(key, '-inf', now - WINDOW_MS)
+    .zrange(key, 0, -1)
+    .pexpire(key, WINDOW_MS)
+    .exec();
 
-  if (state.state === 'open') {
-    if (state.nextAttemptAt && now >= state.nextAttemptAt) {
-      await saveState({
-        ...state,
-        state: 'half_open',
-        nextAttemptAt: null,
-      });
-      return;
+  const members = (results?.[2]?.[1] ?? []) as string[];
+  return summarizeWindow(members);
+}
+
+function summarizeWindow(members: string[]): CircuitBreakerSnapshot['window'] {
+  const failures = members.filter((member) => member.includes(':failure:')).length;
+  return {
+    requests: members.length,
+    failures,
+    failureRate: members.length > 0 ? failures / members.length : 0,
+  };
+}
+
+function openState(current: StoredCircuit, now: number): StoredCircuit {
+  return {
+    ...current,
+    state: 'open',
+    openedAt: now,
+    nextAttemptAt: now + OPEN_DURATION_MS,
+  };
+}
+
+/**
+ * HTTP status of a provider error, if it carries one (directly or on its `cause`).
+ */
+function getErrorStatus(error: unknown): number | null {
+  for (let current = error, depth = 0; current && depth < 3; depth += 1) {
+    if (typeof current !== 'object') {
+      break;
     }
-    throw new Error('CLAUDE_CIRCUIT_OPEN');
+    const status = (current as { status?: unknown }).status;
+    if (typeof status === 'number') {
+      return status;
+    }
+    current = (current as { cause?: unknown }).cause;
   }
+  return null;
 }
 
-export async function recordSuccess(): Promise<void> {
-  const state = await loadState();
-  if (state.state !== 'closed' || state.failureCount !== 0) {
-    await saveState({
-      state: 'closed',
-      failureCount: 0,
-      lastFailureAt: null,
-      nextAttemptAt: null,
-    });
+/**
+ * Whether a provider error says the provider is unhealthy. 5xx responses, timeouts, throttling
+ * and network errors count; other 4xx responses (bad requests, invalid input) do not.
+ */
+export function isCircuitFailure(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status === null) {
+    return true;
   }
+  return status >= 500 || status === 408 || status === 429;
 }
 
-export async function recordFailure(): Promise<void> {
+/**
+ * Whether a provider call failed by timing out (HTTP 408/504 or a client-side timeout).
+ */
+export function isTimeoutError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status === 408 || status === 504) {
+    return true;
+  }
+
+  for (let current = error, depth = 0; current instanceof Error && depth < 3; depth += 1) {
+    if (/timeout/i.test(current.name) || /timed? ?out/i.test(current.message)) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Throws PROVIDER_CIRCUIT_OPEN while the provider+model circuit is open. Once the open period
+ * has passed, one caller is let through as a half-open probe.
+ */
+export async function assertCircuitClosed(provider: string, model: string): Promise<void> {
+  const id = circuitId(provider, model);
   const now = Date.now();
-  const state = await loadState();
-  const failureCount = state.failureCount + 1;
-
-  if (state.state === 'half_open' && failureCount >= HALF_OPEN_MAX_FAILURES) {
-    await saveState({
-      state: 'open',
-      failureCount,
-      lastFailureAt: now,
-      nextAttemptAt: now + OPEN_DURATION_MS,
-    });
+  const state = await loadState(id);
+
+  if (state.state === 'closed') {
     return;
   }
 
-  if (failureCount >= FAILURE_THRESHOLD) {
-    await saveState({
-      state: 'open',
-      failureCount,
-      lastFailureAt: now,
-      nextAttemptAt: now + OPEN_DURATION_MS,
+  if (state.forced || (state.state === 'open' && (!state.nextAttemptAt || now < state.nextAttemptAt))) {
+    throw new Error('PROVIDER_CIRCUIT_OPEN');
+  }
+
+  // Half-open: only the caller that claims the probe goes through.
+  const claimed = await redis.set(probeKey(id), '1', 'PX', OPEN_DURATION_MS, 'NX');
+  if (!claimed) {
+    throw new Error('PROVIDER_CIRCUIT_OPEN');
+  }
+
+  if (state.state === 'open') {
+    await saveState(id, { ...state, state: 'half_open', nextAttemptAt: null });
+  }
+}
+
+export async function recordSuccess(provider: string, model: string): Promise<void> {
+  const id = circuitId(provider, model);
+  const now = Date.now();
+  const [state] = await Promise.all([loadState(id), recordOutcome(id, 'success', now)]);
+
+  if (state.state === 'half_open' && !state.forced) {
+    await redis.del(windowKey(id), probeKey(id));
+    await saveState(id, {
+      ...getDefaultState(),
+      lastFailureAt: state.lastFailureAt,
+      lastFailureReason: state.lastFailureReason,
     });
+  }
+}
+
+/**
+ * Counts a failed provider call. Failures that are not the provider's fault (see
+ * isCircuitFailure) are ignored.
+ */
+export async function recordFailure(provider: string, model: string, error: unknown): Promise<void> {
+  if (!isCircuitFailure(error)) {
     return;
   }
 
-  await saveState({
-    state: 'closed',
-    failureCount,
+  const id = circuitId(provider, model);
+  const now = Date.now();
+  const [state, window] = await Promise.all([loadState(id), recordOutcome(id, 'failure', now)]);
+  const failed: StoredCircuit = {
+    ...state,
     lastFailureAt: now,
-    nextAttemptAt: null,
-  });
+    lastFailureReason: error instanceof Error ? error.message.slice(0, 200) : 'Unknown error',
+  };
+
+  if (state.forced || state.state === 'open') {
+    await saveState(id, failed);
+    return;
+  }
+
+  if (state.state === 'half_open') {
+    await redis.del(probeKey(id));
+    await saveState(id, openState(failed, now));
+    return;
+  }
+
+  const tripped = window.requests >= MIN_REQUESTS && window.failureRate >= FAILURE_RATE_THRESHOLD;
+  await saveState(id, tripped ? openState(failed, now) : failed);
+}
+
+export async function getCircuit(provider: string, model: string): Promise<CircuitBreakerSnapshot> {
+  const id = circuitId(provider, model);
+  const now = Date.now();
+  const [state, members] = await Promise.all([
+    loadState(id),
+    redis.zrangebyscore(windowKey(id), now - WINDOW_MS, '+inf'),
+  ]);
+
+  return { provider, model, ...state, window: summarizeWindow(members) };
+}
+
+/**
+ * Every provider+model circuit that has recorded an outcome or been forced.
+ */
+export async function listCircuits(): Promise<CircuitBreakerSnapshot[]> {
+  const ids = (await redis.smembers(CIRCUIT_INDEX_KEY)).sort();
+
+  return Promise.all(ids.map((id) => {
+    const separator = id.indexOf(':');
+    return getCircuit(id.slice(0, separator), id.slice(separator + 1));
+  }));
+}
+
+/**
+ * Admin override. `open` holds the circuit open until it is closed again; `closed` resets it
+ * and clears the rolling window.
+ */
+export async function forceCircuit(
+  provider: string,
+  model: string,
+  state: 'open' | 'closed'
+): Promise<CircuitBreakerSnapshot> {
+  const id = circuitId(provider, model);
+  const now = Date.now();
+  const current = await loadState(id);
+
+  if (state === 'open') {
+    await saveState(id, { ...current, state: 'open', forced: true, openedAt: now, nextAttemptAt: null });
+  } else {
+    await redis.del(windowKey(id), probeKey(id));
+    await saveState(id, {
+      ...getDefaultState(),
+      lastFailureAt: current.lastFailureAt,
+      lastFailureReason: current.lastFailureReason,
+    });
+  }
+
+  return getCircuit(provider, model);
 }
@@ -0,0 +1,200 @@
+import { createHash, randomInt, timingSafeEqual } from 'node:crypto';
+import { and, asc, eq, isNotNull, ne } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { actions, users } from '../db/schema.js';
+import { getMailer } from '../mail/mailer.js';
+import { redis } from '../redis/client.js';
+import type { UserRole } from '../types/index.js';
+import { mergeAccounts } from './account-merge.js';
+import { PLAN_ENTITLEMENTS } from './entitlements.js';
+import { getAccountPlan } from './plan.js';
+import { revokeSession } from './sessions.js';
+import { countSeats, toUserRole } from './team.js';
+
+export interface EmailLinkChallenge {
+  email: string;
+  expiresAt: string;
+}
+
+export interface EmailLinkResult {
+  accountId: string;
+  email: string;
+  /** Set when this device's previous account was folded into the email's account. */
+  mergedAccountId: string | null;
+}
+
+export interface LinkClient {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+const CODE_TTL_SECONDS = 10 * 60;
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_CODE_ATTEMPTS = 5;
+
+function challengeKey(userId: string): string {
+  return `email-link:${userId}`;
+}
+
+function cooldownKey(userId: string): string {
+  return `email-link-cooldown:${userId}`;
+}
+
+function hashCode(userId: string, code: string): string {
+  return createHash('sha256').update(`${userId}:${code}`).digest('hex');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Emails a one-time code that proves this device's user owns `email`.
+ * A new request replaces any outstanding code.
+ *
+ * Throws LINK_CODE_COOLDOWN when asked again within a minute.
+ */
+export async function startEmailLink(userId: string, rawEmail: string): Promise<EmailLinkChallenge> {
+  const email = normalizeEmail(rawEmail);
+
+  const allowed = await redis.set(cooldownKey(userId), '1', 'EX', RESEND_COOLDOWN_SECONDS, 'NX');
+  if (allowed !== 'OK') {
+    throw new Error('LINK_CODE_COOLDOWN');
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const key = challengeKey(userId);
+
+  await redis
+    .multi()
+    .del(key)
+    .hset(key, { email, code_hash: hashCode(userId, code), attempts: '0' })
+    .expire(key, CODE_TTL_SECONDS)
+    .exec();
+
+  try {
+    await getMailer().send({
+      to: email,
+      subject: 'Your verification code',
+      text: [
+        `Your verification code is ${code}.`,
+        '',
+        `Enter it in the extension within ${CODE_TTL_SECONDS / 60} minutes to link this device to ${email}.`,
+        'If you did not request this, you can ignore this email.',
+      ].join('\n'),
+    });
+  } catch (error) {
+    await redis.del(key, cooldownKey(userId));
+    throw error;
+  }
+
+  return {
+    email,
+    expiresAt: new Date(Date.now() + CODE_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * Confirms the emailed code and attaches the device to the account that already owns
+ * the verified email, with the same role as the email's existing device. If this device
+ * was on an account of its own, that account is merged into the email's account; paid
+ * accounts are never merged away. Without an existing owner, the email is simply
+ * verified on the current account.
+ *
+ * Throws LINK_CODE_EXPIRED, LINK_CODE_INVALID, LINK_CODE_ATTEMPTS_EXCEEDED,
+ * ACCOUNT_MERGE_CONFLICT or SEAT_LIMIT_REACHED.
+ */
+export async function verifyEmailLink(
+  accountId: string,
+  userId: string,
+  code: string,
+  client: LinkClient
+): Promise<EmailLinkResult> {
+  const key = challengeKey(userId);
+  const challenge = await redis.hgetall(key);
+
+  if (!challenge.email || !challenge.code_hash) {
+    throw new Error('LINK_CODE_EXPIRED');
+  }
+
+  const expected = Buffer.from(challenge.code_hash, 'hex');
+  const actual = Buffer.from(hashCode(userId, code.trim()), 'hex');
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    const attempts = await redis.hincrby(key, 'attempts', 1);
+    if (attempts >= MAX_CODE_ATTEMPTS) {
+      await redis.del(key);
+      throw new Error('LINK_CODE_ATTEMPTS_EXCEEDED');
+    }
+    throw new Error('LINK_CODE_INVALID');
+  }
+
+  // One use only, even if something below fails.
+  await redis.del(key);
+
+  const email = challenge.email;
+  const [owner] = await db
+    .select({ accountId: users.account_id, role: users.role })
+    .from(users)
+    .where(and(eq(users.email, email), isNotNull(users.email_verified_at), ne(users.account_id, accountId)))
+    .orderBy(asc(users.email_verified_at))
+    .limit(1);
+
+  if (!owner) {
+    await markEmailVerified(userId, email);
+    await db.insert(actions).values({
+      account_id: accountId,
+      user_id: userId,
+      action_type: 'email_verified',
+      metadata: { email },
+      ip_address: client.ipAddress,
+      user_agent: client.userAgent,
+    });
+
+    return { accountId, email, mergedAccountId: null };
+  }
+
+  const [sourcePlan, targetPlan] = await Promise.all([
+    getAccountPlan(accountId),
+    getAccountPlan(owner.accountId),
+  ]);
+  if (sourcePlan.plan !== 'free') {
+    throw new Error('ACCOUNT_MERGE_CONFLICT');
+  }
+
+  // This device shares the email's seat; any other devices on its account need their own.
+  const otherDevices = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.account_id, accountId), ne(users.id, userId)));
+  const seats = await countSeats(owner.accountId, otherDevices.map((device) => device.id));
+  if (seats > PLAN_ENTITLEMENTS[targetPlan.plan].seats) {
+    throw new Error('SEAT_LIMIT_REACHED');
+  }
+
+  const sessionIds = await mergeAccounts(accountId, owner.accountId);
+  await markEmailVerified(userId, email, toUserRole(owner.role));
+
+  // Existing access tokens still carry the old account id.
+  for (const sessionId of sessionIds) {
+    await revokeSession(sessionId, 'account_merged');
+  }
+
+  await db.insert(actions).values({
+    account_id: owner.accountId,
+    user_id: userId,
+    action_type: 'account_merged',
+    metadata: { email, merged_account_id: accountId },
+    ip_address: client.ipAddress,
+    user_agent: client.userAgent,
+  });
+
+  return { accountId: owner.accountId, email, mergedAccountId: accountId };
+}
+
+async function markEmailVerified(userId: string, email: string, role?: UserRole): Promise<void> {
+  await db
+    .update(users)
+    .set({ email, email_verified_at: new Date(), ...(role ? { role } : {}) })
+    .where(eq(users.id, userId));
+}
@@ -0,0 +1,141 @@
+import { DEFAULT_ANTHROPIC_MODEL } from '../ai/anthropic-provider.js';
+import { PROVIDER_NAMES, type ModelTarget, type ProviderName } from '../ai/provider.js';
+import { CONVERSATION_GOALS, type ConversationGoal } from '../types/index.js';
+import type { AccountPlan, PlanTier } from './plan.js';
+
+/**
+ * Everything a plan tier unlocks. Routes, the rate limiter and the worker read limits from
+ * here instead of checking the tier; GET /account/entitlements exposes the same values so
+ * the extension can disable controls up front.
+ */
+export interface PlanEntitlements {
+  /** Suggestion requests the account may make per UTC day. */
+  dailyRequests: number;
+  /** Each user's share of dailyRequests on team accounts. */
+  userDailyRequests: number;
+  /** Model tokens (input + output) per billing period. */
+  monthlyTokenBudget: number;
+  /** Alternative replies a single /suggest call may request. */
+  maxVariants: number;
+  /** Most recent messages sent to the model; older ones are dropped. */
+  maxTranscriptMessages: number;
+  /** Longest suggestedMessage in characters. Presets may set a lower maxLength. */
+  maxMessageLength: number;
+  allowedGoals: readonly ConversationGoal[];
+  /** Per-request customInstructions on /suggest. */
+  customInstructions: boolean;
+  /** Stored global instructions and goal presets (the /settings write routes). */
+  settings: boolean;
+  maxPresets: number;
+  /** Models tried in order; later entries answer when earlier ones are unavailable. */
+  models: readonly ModelTarget[];
+  /** People (distinct verified emails, or devices without one) the account may have. */
+  seats: number;
+}
+
+const FREE_GOALS: readonly ConversationGoal[] = ['buy_item', 'sell_item', 'general_assistance'];
+
+function envInt(name: string, fallback: number): number {
+  return parseInt(process.env[name] || String(fallback), 10);
+}
+
+/**
+ * Reads a tier's model chain from MODEL_CHAIN_<TIER>: comma-separated `provider:model`
+ * entries (a bare provider uses its default model). Unset, the chain is just the
+ * SUGGESTION_PROVIDER with ANTHROPIC_MODEL_<TIER> or ANTHROPIC_MODEL.
+ */
+function planModels(tier: string): ModelTarget[] {
+  const chain = process.env[`MODEL_CHAIN_${tier}`];
+
+  if (!chain) {
+    return [{
+      provider: toProviderName(process.env.SUGGESTION_PROVIDER ?? 'anthropic', tier),
+      model: process.env[`ANTHROPIC_MODEL_${tier}`] || process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL,
+    }];
+  }
+
+  return chain.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const separator = entry.indexOf(':');
+    const provider = toProviderName(separator === -1 ? entry : entry.slice(0, separator), tier);
+    const model = separator === -1 ? '' : entry.slice(separator + 1).trim();
+    return { provider, model: model || (provider === 'anthropic' ? DEFAULT_ANTHROPIC_MODEL : provider) };
+  });
+}
+
+function toProviderName(value: string, tier: string): ProviderName {
+  const name = value.trim().toLowerCase();
+  if (!PROVIDER_NAMES.includes(name as ProviderName)) {
+    throw new Error(`Unknown provider "${value}" in MODEL_CHAIN_${tier}`);
+  }
+  return name as ProviderName;
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanTier, PlanEntitlements> = {
+  free: {
+    dailyRequests: envInt('RATE_LIMIT_FREE_DAILY', 15),
+    userDailyRequests: envInt('RATE_LIMIT_FREE_USER_DAILY', 15),
+    monthlyTokenBudget: envInt('TOKEN_BUDGET_FREE_MONTHLY', 50000),
+    maxVariants: 1,
+    maxTranscriptMessages: 20,
+    maxMessageLength: 200,
+    allowedGoals: FREE_GOALS,
+    customInstructions: false,
+    settings: false,
+    maxPresets: 0,
+    models: planModels('FREE'),
+    seats: 1,
+  },
+  pro: {
+    dailyRequests: envInt('RATE_LIMIT_PRO_DAILY', 100),
+    userDailyRequests: envInt('RATE_LIMIT_PRO_USER_DAILY', 50),
+    monthlyTokenBudget: envInt('TOKEN_BUDGET_PRO_MONTHLY', 1000000),
+    maxVariants: 3,
+    maxTranscriptMessages: 50,
+    maxMessageLength: 300,
+    allowedGoals: CONVERSATION_GOALS,
+    customInstructions: true,
+    settings: true,
+    maxPresets: 10,
+    models: planModels('PRO'),
+    seats: 3,
+  },
+  enterprise: {
+    dailyRequests: envInt('RATE_LIMIT_ENTERPRISE_DAILY', 1000),
+    userDailyRequests: envInt('RATE_LIMIT_ENTERPRISE_USER_DAILY', 200),
+    monthlyTokenBudget: envInt('TOKEN_BUDGET_ENTERPRISE_MONTHLY', 10000000),
+    maxVariants: 5,
+    maxTranscriptMessages: 100,
+    maxMessageLength: 500,
+    allowedGoals: CONVERSATION_GOALS,
+    customInstructions: true,
+    settings: true,
+    maxPresets: 50,
+    models: planModels('ENTERPRISE'),
+    seats: 25,
+  },
+};
+
+/**
+ * The account's entitlements: its tier's row with admin limit overrides applied.
+ * A user's daily share never exceeds the account's pool.
+ */
+export function getEntitlements(accountPlan: AccountPlan): PlanEntitlements {
+  const { plan, limitOverrides } = accountPlan;
+  const base = PLAN_ENTITLEMENTS[plan];
+  const dailyRequests = limitOverrides.dailyRequests ?? base.dailyRequests;
+  const userDailyRequests = limitOverrides.userDailyRequests ?? base.userDailyRequests;
+
+  return {
+    ...base,
+    dailyRequests,
+    userDailyRequests: Math.min(dailyRequests, userDailyRequests),
+  };
+}
+
+/**
+ * Unknown goal strings fall through to the general prompt, so only known goals are gated.
+ */
+export function isGoalAllowed(entitlements: PlanEntitlements, goal: string): boolean {
+  const known = (CONVERSATION_GOALS as readonly string[]).includes(goal);
+  return !known || entitlements.allowedGoals.includes(goal as ConversationGoal);
+}
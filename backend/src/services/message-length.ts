@@ -0,0 +1,58 @@
+// Also bundled into the extension through ai/fallback-suggester.ts, so it stays dependency-free
+// (checked by test/fallback-suggester.test.ts).
+
+// Used when the caller passes no limit; matches the free plan.
+export const DEFAULT_MAX_MESSAGE_LENGTH = 200;
+
+// A sentence-boundary cut must keep at least this share of the budget; shorter cuts lose
+// too much of the reply, so the model is asked to condense instead.
+const MIN_SENTENCE_TRIM_RATIO = 0.5;
+
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)/g;
+
+/**
+ * The longest run of whole sentences from the start of `text` that fits in `maxLength`, or null
+ * when that would drop more than half of the budget (or no sentence fits).
+ */
+export function trimToSentence(text: string, maxLength: number): string | null {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxLength) {
+    return trimmed;
+  }
+
+  let cut = 0;
+  for (const match of trimmed.matchAll(SENTENCE_END)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (end > maxLength) {
+      break;
+    }
+    cut = end;
+  }
+
+  return cut >= maxLength * MIN_SENTENCE_TRIM_RATIO ? trimmed.slice(0, cut) : null;
+}
+
+/**
+ * Last resort: cuts at the last word boundary that fits, with an ellipsis. Never splits a word
+ * unless the first word alone is longer than the budget.
+ */
+export function truncateAtWord(text: string, maxLength: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxLength) {
+    return trimmed;
+  }
+
+  const budget = Math.max(1, maxLength - 1);
+  const slice = trimmed.slice(0, budget + 1);
+  const boundary = slice.lastIndexOf(' ');
+  const cut = boundary > 0 ? slice.slice(0, boundary) : trimmed.slice(0, budget);
+
+  return `${cut.replace(/[\s,;:–—-]+$/, '')}…`;
+}
+
+/**
+ * Fits `text` without a model: whole sentences when possible, otherwise a word-boundary cut.
+ */
+export function fitToLength(text: string, maxLength: number): string {
+  return trimToSentence(text, maxLength) ?? truncateAtWord(text, maxLength);
+}
@@ -0,0 +1,70 @@
+import { redis } from '../redis/client.js';
+
+/**
+ * How a model reply got through validation: valid as returned, valid after one repair
+ * round-trip, or still invalid after the repair.
+ */
+export type OutputRepairOutcome = 'valid' | 'repaired' | 'failed';
+
+export interface OutputRepairStats {
+  conversationGoal: string;
+  valid: number;
+  repaired: number;
+  failed: number;
+  /** Share of replies that needed a repair round-trip (repaired or failed). */
+  repairRate: number | null;
+}
+
+const OUTCOMES: readonly OutputRepairOutcome[] = ['valid', 'repaired', 'failed'];
+const METRICS_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+// One hash per UTC day, with `<goal>:<outcome>` counters.
+function dailyKey(day: Date): string {
+  return `metrics:output_repair:${day.toISOString().slice(0, 10)}`;
+}
+
+export async function recordOutputRepair(conversationGoal: string, outcome: OutputRepairOutcome): Promise<void> {
+  const key = dailyKey(new Date());
+  await redis
+    .multi()
+    .hincrby(key, `${conversationGoal}:${outcome}`, 1)
+    .expire(key, METRICS_RETENTION_SECONDS)
+    .exec();
+}
+
+/**
+ * Repair counts per conversation goal over the last `days` UTC days (today included),
+ * across all accounts.
+ */
+export async function getOutputRepairStats(days: number, now: Date = new Date()): Promise<OutputRepairStats[]> {
+  const keys = Array.from({ length: days }, (_, offset) =>
+    dailyKey(new Date(now.getTime() - offset * 24 * 60 * 60 * 1000))
+  );
+  const hashes = await Promise.all(keys.map((key) => redis.hgetall(key)));
+
+  const byGoal = new Map<string, OutputRepairStats>();
+  for (const hash of hashes) {
+    for (const [field, value] of Object.entries(hash)) {
+      const separator = field.lastIndexOf(':');
+      const goal = field.slice(0, separator);
+      const outcome = field.slice(separator + 1) as OutputRepairOutcome;
+      if (!OUTCOMES.includes(outcome)) {
+        continue;
+      }
+
+      const stats = byGoal.get(goal) ?? { conversationGoal: goal, valid: 0, repaired: 0, failed: 0, repairRate: null };
+      stats[outcome] += parseInt(value, 10) || 0;
+      byGoal.set(goal, stats);
+    }
+  }
+
+  return [...byGoal.values()]
+    .map((stats) => {
+      const total = stats.valid + stats.repaired + stats.failed;
+      return {
+        ...stats,
+        repairRate: total > 0 ? Math.round(((stats.repaired + stats.failed) / total) * 1000) / 1000 : null,
+      };
+    })
+    .sort((a, b) => a.conversationGoal.localeCompare(b.conversationGoal));
+}
@@ -1,14 +1,39 @@
 import { eq } from 'drizzle-orm';
 import { db } from '../db/client.js';
-import { accounts } from '../db/schema.js';
+import { accounts, type Account } from '../db/schema.js';
 
 export type PlanTier = 'free' | 'pro' | 'enterprise';
 
+/**
+ * Where the account is in its paid plan's lifecycle. `grace` keeps paid features for
+ * PLAN_GRACE_PERIOD_DAYS after plan_expires_at while a renewal is still expected (a failed
+ * payment being retried); `expired` means a trial or paid plan lapsed.
+ */
+export type PlanStatus = 'trialing' | 'active' | 'grace' | 'expired';
+
 export interface AccountPlan {
   plan: PlanTier;
   isActive: boolean;
+  planStatus: PlanStatus;
+  trialEndsAt: Date | null;
+  planExpiresAt: Date | null;
+  /** When paid features stop: plan_expires_at, plus the grace period if the plan auto-renews. */
+  graceEndsAt: Date | null;
+  /** A billing subscription will renew the plan, so its expiry is not a warning sign. */
+  autoRenews: boolean;
+  /** Account standing; anything but `active` is blocked by authMiddleware. */
+  status: Account['status'];
+  /** Admin overrides of the plan's daily request limits (applied by getEntitlements). */
+  limitOverrides: {
+    dailyRequests: number | null;
+    userDailyRequests: number | null;
+  };
 }
 
+// Days an auto-renewing paid plan keeps working after plan_expires_at while a renewal payment is
+// retried. Plans that will not renew (cancelled at period end, set by an admin) end on time.
+export const PLAN_GRACE_PERIOD_DAYS = parseInt(process.env.PLAN_GRACE_PERIOD_DAYS || '3', 10);
+
 export async function getAccountPlan(accountId: string): Promise<AccountPlan> {
   const [account] = await db
     .select()
@@ -20,25 +45,66 @@ export async function getAccountPlan(accountId: string): Promise<AccountPlan> {
     throw new Error('Account not found');
   }
 
-  const currentPlan = (account.plan ?? account.plan_tier) as PlanTier;
-  const expiresAt = account.plan_expires_at;
+  const { plan, planStatus, graceEndsAt } = resolvePlanLifecycle(account, new Date());
 
-  if (expiresAt && expiresAt.getTime() < Date.now()) {
+  // Persist the downgrade once the trial or grace period is over; the expiry dates are kept
+  // so the account still reports `expired`.
+  if (planStatus === 'expired' && account.plan !== 'free') {
     await db
       .update(accounts)
       .set({
         plan: 'free',
         plan_tier: 'free',
-        plan_expires_at: null,
+        plan_auto_renews: false,
         updated_at: new Date(),
       })
       .where(eq(accounts.id, accountId));
-
-    return { plan: 'free', isActive: false };
   }
 
   return {
-    plan: currentPlan,
-    isActive: currentPlan !== 'free',
+    plan,
+    isActive: plan !== 'free',
+    planStatus,
+    trialEndsAt: account.trial_ends_at,
+    planExpiresAt: account.plan_expires_at,
+    graceEndsAt,
+    autoRenews: plan !== 'free' && account.plan_auto_renews,
+    status: account.status,
+    limitOverrides: {
+      dailyRequests: account.daily_request_limit,
+      userDailyRequests: account.user_daily_request_limit,
+    },
   };
 }
+
+function resolvePlanLifecycle(
+  account: Account,
+  now: Date
+): { plan: PlanTier; planStatus: PlanStatus; graceEndsAt: Date | null } {
+  const currentPlan = (account.plan ?? account.plan_tier) as PlanTier;
+  const trialEndsAt = account.trial_ends_at;
+  const expiresAt = account.plan_expires_at;
+  const graceDays = account.plan_auto_renews ? PLAN_GRACE_PERIOD_DAYS : 0;
+  const graceEndsAt = expiresAt
+    ? new Date(expiresAt.getTime() + graceDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  if (currentPlan === 'free') {
+    const lapsed = (trialEndsAt && trialEndsAt <= now) || (graceEndsAt && graceEndsAt <= now);
+    return { plan: 'free', planStatus: lapsed ? 'expired' : 'active', graceEndsAt: null };
+  }
+
+  if (trialEndsAt) {
+    return trialEndsAt > now
+      ? { plan: currentPlan, planStatus: 'trialing', graceEndsAt: null }
+      : { plan: 'free', planStatus: 'expired', graceEndsAt: null };
+  }
+
+  if (!expiresAt || !graceEndsAt || expiresAt > now) {
+    return { plan: currentPlan, planStatus: 'active', graceEndsAt };
+  }
+
+  return graceEndsAt > now
+    ? { plan: currentPlan, planStatus: 'grace', graceEndsAt }
+    : { plan: 'free', planStatus: 'expired', graceEndsAt };
+}
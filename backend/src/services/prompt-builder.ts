@@ -5,16 +5,94 @@ type Message = {
   isUser: boolean;
 };
 
-export function buildPrompt(input: {
+export function buildTranscript(messages: Message[]): string {
+  const transcript = messages
+    .map((message) => `${message.isUser ? 'User' : 'Other'}: ${message.text}`)
+    .join('\n');
+  return transcript.length > 0 ? transcript : 'No messages yet.';
+}
+
+function buildResponseFormat(variantCount: number): string[] {
+  if (variantCount <= 1) {
+    return [
+      'Return ONLY valid JSON with keys: suggestedMessage, intentScore, reasoning, nextAction.',
+      'intentScore must be a number between 0 and 1.',
+      'nextAction must be one of: ask_availability, send_booking_link, answer_question, close.',
+      'Do not add extra keys.',
+      'No markdown. No extra keys. No preamble.',
+    ];
+  }
+
+  return [
+    `Return ONLY valid JSON with a single key: variants, an array of exactly ${variantCount} alternative replies ranked best first.`,
+    'Each variant must have keys: suggestedMessage, tone, intentScore, reasoning, nextAction.',
+    'tone is a one or two word label for the style of that reply (for example: friendly, direct, formal).',
+    'Each variant must use a clearly different tone or approach.',
+    'intentScore must be a number between 0 and 1.',
+    'nextAction must be one of: ask_availability, send_booking_link, answer_question, close.',
+    'No markdown. No extra keys. No preamble.',
+  ];
+}
+
+/**
+ * User message for the repair round-trip: the original transcript, the rejected output and
+ * what was wrong with it.
+ */
+export function buildRepairMessage(transcript: string, invalidOutput: string, errors: string[]): string {
+  return [
+    transcript,
+    '',
+    'Your previous reply was rejected:',
+    invalidOutput.trim().slice(0, 4000),
+    '',
+    'Problems:',
+    ...errors.map((error) => `- ${error}`),
+    '',
+    'Return the corrected reply in the required JSON format. No markdown. No preamble.',
+  ].join('\n');
+}
+
+/**
+ * System prompt for condensing a reply that came back over its character limit.
+ * The model answers with the shortened message as plain text.
+ */
+export function buildCondensePrompt(maxLength: number): string {
+  return [
+    'You shorten marketplace chat messages.',
+    `Rewrite the message you are given in at most ${maxLength} characters.`,
+    'Keep its meaning, tone, language and any question it asks. Use complete sentences.',
+    'Return ONLY the shortened message. No quotes. No preamble.',
+  ].join(' ');
+}
+
+export interface BuildPromptInput {
   conversationGoal: string;
   messages: Message[];
   listingTitle?: string;
   listingPrice?: string;
   quickQuestion?: string;
   persistentContext?: string;
+  globalInstructions?: string;
+  presetInstructions?: string;
   customInstructions?: string;
-}) {
-  const { conversationGoal, messages, customInstructions, quickQuestion, persistentContext } = input;
+  tone?: string;
+  maxLength?: number;
+  variantCount?: number;
+}
+
+export function buildPrompt(input: BuildPromptInput) {
+  const {
+    conversationGoal,
+    messages,
+    globalInstructions,
+    presetInstructions,
+    customInstructions,
+    quickQuestion,
+    persistentContext,
+    tone,
+    maxLength,
+  } = input;
+  const responseFormat = buildResponseFormat(input.variantCount ?? 1);
 
   let systemInstruction = '';
 
@@ -23,52 +101,32 @@ export function buildPrompt(input: {
       'You are an assistant helping a seller close a sale.',
       'Your job is to guide the conversation toward commitment without being pushy.',
       'Ask one clear next-step question.',
-      'Return ONLY valid JSON with keys: suggestedMessage, intentScore, reasoning, nextAction.',
-      'intentScore must be a number between 0 and 1.',
-      'nextAction must be one of: ask_availability, send_booking_link, answer_question, close.',
-      'Do not add extra keys.',
-      'No markdown. No extra keys. No preamble.',
+      ...responseFormat,
     ].join(' ');
   } else if (conversationGoal === 'buy_item') {
     systemInstruction = [
       'You are an assistant helping a buyer purchase an item.',
       'Be clear and concise. Ask one helpful next-step question if needed.',
-      'Return ONLY valid JSON with keys: suggestedMessage, intentScore, reasoning, nextAction.',
-      'intentScore must be a number between 0 and 1.',
-      'nextAction must be one of: ask_availability, send_booking_link, answer_question, close.',
-      'Do not add extra keys.',
-      'No markdown. No extra keys. No preamble.',
+      ...responseFormat,
     ].join(' ');
   } else if (conversationGoal === 'negotiate_price') {
     systemInstruction = [
       'You are an assistant helping negotiate price politely and efficiently.',
       'Be respectful. Keep it short. Ask for confirmation or propose a concrete number.',
-      'Return ONLY valid JSON with keys: suggestedMessage, intentScore, reasoning, nextAction.',
-      'intentScore must be a number between 0 and 1.',
-      'nextAction must be one of: ask_availability, send_booking_link, answer_question, close.',
-      'Do not add extra keys.',
-      'No markdown. No extra keys. No preamble.',
+      ...responseFormat,
     ].join(' ');
   } else if (conversationGoal === 'arrange_pickup') {
     systemInstruction = [
       'You are an assistant helping finalize logistics for pickup/meetup.',
       'Propose a specific time window and confirm location.',
-      'Return ONLY valid JSON with keys: suggestedMessage, intentScore, reasoning, nextAction.',
-      'intentScore must be a number between 0 and 1.',
-      'nextAction must be one of: ask_availability, send_booking_link, answer_question, close.',
-      'Do not add extra keys.',
-      'No markdown. No extra keys. No preamble.',
+      ...responseFormat,
     ].join(' ');
   } else {
     systemInstruction = [
       'You are a neutral conversation assistant.',
       'Do not assume a product, sale, or intent.',
       'Your job is to help the user clarify goals and move the conversation forward naturally.',
-      'Return ONLY valid JSON with keys: suggestedMessage, intentScore, reasoning, nextAction.',
-      'intentScore must be a number between 0 and 1.',
-      'nextAction must be one of: ask_availability, send_booking_link, answer_question, close.',
-      'Do not add extra keys.',
-      'No markdown. No extra keys. No preamble.',
+      ...responseFormat,
     ].join(' ');
   }
 
@@ -76,12 +134,34 @@ export function buildPrompt(input: {
     systemInstruction = `${systemInstruction} The user selected a simple question to cover: ${quickQuestion.trim()}.`;
   }
 
+  if (tone && tone.trim().length > 0) {
+    systemInstruction = `${systemInstruction} Write in a ${tone.trim()} tone.`;
+  }
+
+  if (maxLength && maxLength > 0) {
+    systemInstruction = `${systemInstruction} Keep suggestedMessage under ${maxLength} characters.`;
+  }
+
   if (persistentContext && persistentContext.trim().length > 0) {
     systemInstruction = `${systemInstruction} User profile/context:\n${persistentContext.trim()}`;
   }
 
-  if (customInstructions && customInstructions.trim().length > 0) {
-    systemInstruction = `${systemInstruction} User instructions: ${customInstructions.trim()}`;
+  // Instruction layers go from least to most specific; the precedence note below resolves conflicts.
+  const instructionLayers = [
+    { label: 'Account instructions', value: globalInstructions },
+    { label: 'Preset instructions', value: presetInstructions },
+    { label: 'User instructions', value: customInstructions },
+  ].filter((layer): layer is { label: string; value: string } =>
+    typeof layer.value === 'string' && layer.value.trim().length > 0
+  );
+
+  for (const layer of instructionLayers) {
+    systemInstruction = `${systemInstruction} ${layer.label}: ${layer.value.trim()}`;
+  }
+
+  if (instructionLayers.length > 1) {
+    const order = [...instructionLayers].reverse().map((layer) => layer.label).join(', then ');
+    systemInstruction = `${systemInstruction} If these instructions conflict, follow ${order}.`;
   }
 
   return {
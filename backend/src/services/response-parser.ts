@@ -1,30 +1,68 @@
-import type { SuggestionResponse } from '../types/index.js';
+import { z } from 'zod';
+import type { SuggestionResponse, SuggestionVariant } from '../types/index.js';
 
 const allowedNextActions = ['ask_availability', 'send_booking_link', 'answer_question', 'close'] as const;
 
-type AllowedNextAction = (typeof allowedNextActions)[number];
+const DEFAULT_TONE = 'default';
+const MAX_TONE_LENGTH = 30;
 
-export function isSuggestionResponse(value: unknown): value is SuggestionResponse {
-  if (!isRecord(value)) {
-    return false;
+// What the model must return for one reply. `tone` is optional and loosely checked: a missing
+// or malformed tone falls back to DEFAULT_TONE instead of failing the reply.
+const suggestionVariantSchema = z.object({
+  suggestedMessage: z.string().trim().min(1),
+  tone: z.string().optional().catch(undefined),
+  intentScore: z.number().min(0).max(1),
+  reasoning: z.string().trim().min(1),
+  nextAction: z.enum(allowedNextActions),
+});
+
+// Multi-variant prompts return { variants: [...] }; single prompts return one suggestion object.
+// More variants than requested fail validation (and go through repair) rather than being billed
+// and returned beyond what the plan allows.
+function suggestionVariantsSchema(variantCount: number) {
+  return z.object({
+    variants: z.array(suggestionVariantSchema).min(1).max(variantCount),
+  });
+}
+
+type RawSuggestion = z.infer<typeof suggestionVariantSchema>;
+
+export type SuggestionOutputValidation =
+  | { success: true; suggestion: SuggestionResponse }
+  | { success: false; errors: string[] };
+
+/**
+ * JSON Schema of the expected reply, for providers with a tool or JSON output mode.
+ * Mirrors the zod schemas above.
+ */
+export function getSuggestionOutputJsonSchema(variantCount: number): Record<string, unknown> {
+  const variant = {
+    type: 'object',
+    properties: {
+      suggestedMessage: { type: 'string', description: 'The reply to send.' },
+      ...(variantCount > 1
+        ? { tone: { type: 'string', description: 'One or two word label for the reply style.' } }
+        : {}),
+      intentScore: { type: 'number', minimum: 0, maximum: 1 },
+      reasoning: { type: 'string' },
+      nextAction: { type: 'string', enum: [...allowedNextActions] },
+    },
+    required: variantCount > 1
+      ? ['suggestedMessage', 'tone', 'intentScore', 'reasoning', 'nextAction']
+      : ['suggestedMessage', 'intentScore', 'reasoning', 'nextAction'],
+  };
+
+  if (variantCount <= 1) {
+    return variant;
   }
 
-  const suggestedMessage = value.suggestedMessage;
-  const intentScore = value.intentScore;
-  const reasoning = value.reasoning;
-  const nextAction = value.nextAction;
-
-  return (
-    typeof suggestedMessage === 'string' &&
-    suggestedMessage.length > 0 &&
-    typeof intentScore === 'number' &&
-    intentScore >= 0 &&
-    intentScore <= 1 &&
-    typeof reasoning === 'string' &&
-    reasoning.length > 0 &&
-    typeof nextAction === 'string' &&
-    allowedNextActions.includes(nextAction as AllowedNextAction)
-  );
+  return {
+    type: 'object',
+    properties: {
+      variants: { type: 'array', items: variant, minItems: variantCount, maxItems: variantCount },
+    },
+    required: ['variants'],
+  };
 }
 
 const forbiddenPatterns = [
@@ -38,7 +76,15 @@ const forbiddenPatterns = [
   /language model/i,
 ];
 
-export function parseClaudeResponse(rawText: string, conversationGoal: string): SuggestionResponse {
+/**
+ * Parses and checks raw model output, allowing at most `variantCount` variants. Failures list
+ * every problem found, phrased so they can be sent back to the model in a repair request.
+ */
+export function validateSuggestionOutput(
+  rawText: string,
+  conversationGoal: string,
+  variantCount: number = 1
+): SuggestionOutputValidation {
   let cleaned = rawText.trim();
 
   if (cleaned.startsWith('```json')) {
@@ -52,34 +98,146 @@ export function parseClaudeResponse(rawText: string, conversationGoal: string):
     parsed = JSON.parse(cleaned);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Parse failed';
-    throw new Error(`Claude returned invalid JSON: ${message}. Raw response: ${cleaned}`);
+    return { success: false, errors: [`Output is not valid JSON: ${message}`] };
   }
 
-  if (!isSuggestionResponse(parsed)) {
-    throw new Error('Claude response does not match SuggestionResponse schema');
+  const result = isRecord(parsed) && 'variants' in parsed
+    ? suggestionVariantsSchema(variantCount).safeParse(parsed)
+    : suggestionVariantSchema.safeParse(parsed);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
   }
 
-  for (const pattern of forbiddenPatterns) {
-    if (pattern.test(parsed.suggestedMessage) || pattern.test(parsed.reasoning)) {
-      throw new Error('Claude response contained disallowed meta content');
-    }
+  const candidates: RawSuggestion[] = 'variants' in result.data ? result.data.variants : [result.data];
+  const errors = candidates.flatMap((candidate, index) =>
+    checkContentPolicy(candidate, conversationGoal).map((error) =>
+      candidates.length > 1 ? `variants.${index}: ${error}` : error
+    )
+  );
+
+  if (errors.length > 0) {
+    return { success: false, errors };
   }
 
-  if (
-    conversationGoal !== 'sell_item' &&
-    /vehicle|test drive|inventory/i.test(parsed.suggestedMessage)
-  ) {
-    throw new Error('Car language leaked into non-sell flow');
+  const variants = candidates.map(toVariant);
+  const [best] = variants as [SuggestionVariant, ...SuggestionVariant[]];
+
+  return {
+    success: true,
+    suggestion: {
+      suggestedMessage: best.suggestedMessage,
+      intentScore: best.intentScore,
+      reasoning: best.reasoning,
+      nextAction: best.nextAction,
+      variants,
+      source: 'model',
+    },
+  };
+}
+
+/**
+ * Throws SUGGESTION_OUTPUT_INVALID when the output fails validateSuggestionOutput.
+ */
+export function parseClaudeResponse(rawText: string, conversationGoal: string, variantCount: number = 1): SuggestionResponse {
+  const result = validateSuggestionOutput(rawText, conversationGoal, variantCount);
+  if (!result.success) {
+    throw new Error('SUGGESTION_OUTPUT_INVALID');
+  }
+  return result.suggestion;
+}
+
+function checkContentPolicy(candidate: RawSuggestion, conversationGoal: string): string[] {
+  const errors: string[] = [];
+
+  if (forbiddenPatterns.some((pattern) => pattern.test(candidate.suggestedMessage) || pattern.test(candidate.reasoning))) {
+    errors.push('suggestedMessage and reasoning must not mention prompts, instructions or being an AI');
   }
 
+  if (conversationGoal !== 'sell_item' && /vehicle|test drive|inventory/i.test(candidate.suggestedMessage)) {
+    errors.push('suggestedMessage must not use car dealership language (vehicle, test drive, inventory)');
+  }
+
+  return errors;
+}
+
+function toVariant(candidate: RawSuggestion): SuggestionVariant {
+  const tone = candidate.tone && candidate.tone.trim().length > 0
+    ? candidate.tone.trim().toLowerCase().slice(0, MAX_TONE_LENGTH)
+    : DEFAULT_TONE;
+
   return {
-    suggestedMessage: parsed.suggestedMessage.trim().slice(0, 200),
-    intentScore: Math.min(1, Math.max(0, parsed.intentScore)),
-    reasoning: parsed.reasoning.trim(),
-    nextAction: parsed.nextAction,
+    suggestedMessage: candidate.suggestedMessage,
+    tone,
+    intentScore: candidate.intentScore,
+    reasoning: candidate.reasoning,
+    nextAction: candidate.nextAction,
   };
 }
 
+const jsonEscapes: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Decodes the `suggestedMessage` value from a JSON object that is still being streamed.
+ * Returns null until the opening quote of the value has arrived. Incomplete escape
+ * sequences at the end of the buffer are held back until the next chunk.
+ */
+export function extractPartialSuggestedMessage(rawText: string): string | null {
+  const keyMatch = /"suggestedMessage"\s*:\s*"/.exec(rawText);
+  if (!keyMatch) {
+    return null;
+  }
+
+  let result = '';
+  let index = keyMatch.index + keyMatch[0].length;
+
+  while (index < rawText.length) {
+    const char = rawText[index];
+
+    if (char === '"') {
+      break;
+    }
+
+    if (char !== '\\') {
+      result += char;
+      index += 1;
+      continue;
+    }
+
+    const escape = rawText[index + 1];
+    if (escape === undefined) {
+      break;
+    }
+
+    if (escape === 'u') {
+      const hex = rawText.slice(index + 2, index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        break;
+      }
+      result += String.fromCharCode(parseInt(hex, 16));
+      index += 6;
+      continue;
+    }
+
+    result += jsonEscapes[escape] ?? escape;
+    index += 2;
+  }
+
+  return result;
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
@@ -0,0 +1,300 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { actions, authSessions, refreshTokens } from '../db/schema.js';
+import { redis } from '../redis/client.js';
+import { signAccessToken, signRefreshToken, verifyToken } from '../auth/jwt.js';
+
+export interface SessionClient {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  userId: string;
+  current: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'revoked_by_user'
+  | 'revoked_by_admin'
+  | 'refresh_token_reuse'
+  | 'account_merged';
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Access tokens are stateless, so revoked sessions are also flagged in Redis until
+// any access token issued for them has expired.
+function revokedSessionKey(sessionId: string): string {
+  return `revoked_session:${sessionId}`;
+}
+
+function readRefreshToken(token: string): { accountId: string; userId: string; sessionId: string } {
+  let payload: ReturnType<typeof verifyToken>;
+  try {
+    payload = verifyToken(token);
+  } catch {
+    throw new Error('INVALID_REFRESH_TOKEN');
+  }
+
+  if (payload.type !== 'refresh' || !payload.sessionId) {
+    throw new Error('INVALID_REFRESH_TOKEN');
+  }
+
+  return { accountId: payload.accountId, userId: payload.userId, sessionId: payload.sessionId };
+}
+
+/**
+ * Starts a new session (token family) for a login and issues its first token pair.
+ */
+export async function createSession(
+  accountId: string,
+  userId: string,
+  client: SessionClient
+): Promise<SessionTokens> {
+  const sessionId = randomUUID();
+  const refresh = signRefreshToken(accountId, userId, sessionId);
+
+  await db.transaction(async (tx) => {
+    await tx.insert(authSessions).values({
+      id: sessionId,
+      account_id: accountId,
+      user_id: userId,
+      ip_address: client.ipAddress,
+      user_agent: client.userAgent,
+      expires_at: refresh.expiresAt,
+    });
+
+    await tx.insert(refreshTokens).values({
+      session_id: sessionId,
+      token_hash: hashRefreshToken(refresh.token),
+      expires_at: refresh.expiresAt,
+    });
+  });
+
+  return {
+    sessionId,
+    accessToken: signAccessToken(accountId, userId, sessionId),
+    refreshToken: refresh.token,
+  };
+}
+
+/**
+ * Exchanges a refresh token for a new token pair. Each refresh token works once;
+ * presenting an already-rotated token revokes the whole session, since either the
+ * client or an attacker is holding a stolen copy.
+ *
+ * Throws INVALID_REFRESH_TOKEN, REFRESH_TOKEN_REUSED or SESSION_REVOKED.
+ */
+export async function rotateRefreshToken(token: string, client: SessionClient): Promise<SessionTokens> {
+  const payload = readRefreshToken(token);
+  const tokenHash = hashRefreshToken(token);
+  const now = new Date();
+
+  const [claimed] = await db
+    .update(refreshTokens)
+    .set({ used_at: now })
+    .where(and(eq(refreshTokens.token_hash, tokenHash), isNull(refreshTokens.used_at)))
+    .returning({ sessionId: refreshTokens.session_id });
+
+  if (!claimed) {
+    const [existing] = await db
+      .select({ sessionId: refreshTokens.session_id })
+      .from(refreshTokens)
+      .where(eq(refreshTokens.token_hash, tokenHash))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error('INVALID_REFRESH_TOKEN');
+    }
+
+    const revoked = await revokeSession(existing.sessionId, 'refresh_token_reuse');
+    if (revoked) {
+      await db.insert(actions).values({
+        account_id: payload.accountId,
+        user_id: payload.userId,
+        action_type: 'refresh_token_reuse',
+        metadata: { session_id: existing.sessionId },
+        ip_address: client.ipAddress,
+        user_agent: client.userAgent,
+      });
+    }
+
+    throw new Error('REFRESH_TOKEN_REUSED');
+  }
+
+  const [session] = await db
+    .select()
+    .from(authSessions)
+    .where(eq(authSessions.id, claimed.sessionId))
+    .limit(1);
+
+  if (!session || session.revoked_at) {
+    throw new Error('SESSION_REVOKED');
+  }
+
+  const refresh = signRefreshToken(session.account_id, session.user_id, session.id);
+
+  await db.transaction(async (tx) => {
+    await tx.insert(refreshTokens).values({
+      session_id: session.id,
+      token_hash: hashRefreshToken(refresh.token),
+      expires_at: refresh.expiresAt,
+    });
+
+    await tx
+      .update(authSessions)
+      .set({
+        last_used_at: now,
+        expires_at: refresh.expiresAt,
+        ip_address: client.ipAddress,
+        user_agent: client.userAgent,
+      })
+      .where(eq(authSessions.id, session.id));
+  });
+
+  return {
+    sessionId: session.id,
+    accessToken: signAccessToken(session.account_id, session.user_id, session.id),
+    refreshToken: refresh.token,
+  };
+}
+
+/**
+ * Ends the session a refresh token belongs to. Already-revoked sessions are a no-op.
+ *
+ * Throws INVALID_REFRESH_TOKEN.
+ */
+export async function logoutSession(token: string): Promise<void> {
+  readRefreshToken(token);
+
+  const [existing] = await db
+    .select({ sessionId: refreshTokens.session_id })
+    .from(refreshTokens)
+    .where(eq(refreshTokens.token_hash, hashRefreshToken(token)))
+    .limit(1);
+
+  if (!existing) {
+    throw new Error('INVALID_REFRESH_TOKEN');
+  }
+
+  await revokeSession(existing.sessionId, 'logout');
+}
+
+/**
+ * Active (unrevoked, unexpired) sessions, most recently used first. Limited to `userId`'s own
+ * sessions when given, otherwise across the account.
+ */
+export async function listSessions(
+  accountId: string,
+  currentSessionId: string | null,
+  userId: string | null
+): Promise<SessionSummary[]> {
+  const rows = await db
+    .select()
+    .from(authSessions)
+    .where(and(
+      eq(authSessions.account_id, accountId),
+      userId ? eq(authSessions.user_id, userId) : undefined,
+      isNull(authSessions.revoked_at),
+      gt(authSessions.expires_at, new Date())
+    ))
+    .orderBy(desc(authSessions.last_used_at));
+
+  return rows.map((row) => ({
+    id: row.id,
+    userId: row.user_id,
+    current: row.id === currentSessionId,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at.toISOString(),
+    lastUsedAt: row.last_used_at.toISOString(),
+    expiresAt: row.expires_at.toISOString(),
+  }));
+}
+
+/**
+ * Revokes one of the account's sessions, e.g. for a lost device. When `userId` is given, only
+ * that user's own sessions can be revoked.
+ *
+ * Throws SESSION_NOT_FOUND.
+ */
+export async function revokeAccountSession(accountId: string, sessionId: string, userId: string | null): Promise<void> {
+  const [session] = await db
+    .select({ id: authSessions.id })
+    .from(authSessions)
+    .where(and(
+      eq(authSessions.id, sessionId),
+      eq(authSessions.account_id, accountId),
+      userId ? eq(authSessions.user_id, userId) : undefined
+    ))
+    .limit(1);
+
+  if (!session) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  await revokeSession(session.id, 'revoked_by_user');
+}
+
+/**
+ * Revokes every active session on the account, signing all of its devices out.
+ * Returns the number of sessions revoked.
+ */
+export async function revokeAllAccountSessions(accountId: string, reason: SessionRevokeReason): Promise<number> {
+  const sessions = await db
+    .select({ id: authSessions.id })
+    .from(authSessions)
+    .where(and(eq(authSessions.account_id, accountId), isNull(authSessions.revoked_at)));
+
+  let revoked = 0;
+  for (const session of sessions) {
+    if (await revokeSession(session.id, reason)) {
+      revoked += 1;
+    }
+  }
+
+  return revoked;
+}
+
+/**
+ * Returns false when the session was already revoked.
+ */
+export async function revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<boolean> {
+  const now = new Date();
+  const [revoked] = await db
+    .update(authSessions)
+    .set({ revoked_at: now, revoked_reason: reason })
+    .where(and(eq(authSessions.id, sessionId), isNull(authSessions.revoked_at)))
+    .returning({ expiresAt: authSessions.expires_at });
+
+  if (!revoked) {
+    return false;
+  }
+
+  const ttlSeconds = Math.ceil((revoked.expiresAt.getTime() - now.getTime()) / 1000);
+  if (ttlSeconds > 0) {
+    await redis.set(revokedSessionKey(sessionId), reason, 'EX', ttlSeconds);
+  }
+
+  return true;
+}
+
+export async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  return (await redis.exists(revokedSessionKey(sessionId))) === 1;
+}
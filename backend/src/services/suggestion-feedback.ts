@@ -0,0 +1,113 @@
+import { db } from '../db/client.js';
+import { actions } from '../db/schema.js';
+import { redis } from '../redis/client.js';
+import { getSuggestionResult } from './suggestion-results.js';
+
+export const FEEDBACK_OUTCOMES = ['accepted', 'edited', 'rejected'] as const;
+
+export type FeedbackOutcome = (typeof FEEDBACK_OUTCOMES)[number];
+
+export interface SuggestionFeedbackInput {
+  outcome: FeedbackOutcome;
+  variantIndex: number;
+  finalText?: string;
+  threadId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface SuggestionFeedbackResult {
+  outcome: FeedbackOutcome;
+  editDistance: number | null;
+}
+
+// Matches the suggestion result TTL; feedback for expired jobs is rejected as not found anyway.
+const FEEDBACK_TTL_SECONDS = 60 * 60 * 24;
+
+function feedbackKey(accountId: string, jobId: string): string {
+  return `suggestion-feedback:${accountId}:${jobId}`;
+}
+
+/**
+ * Records the outcome of a completed suggestion as a `suggestion_<outcome>` action.
+ * Only the first feedback per job is kept.
+ *
+ * Throws SUGGESTION_NOT_FOUND, SUGGESTION_NOT_COMPLETED, VARIANT_NOT_FOUND or FEEDBACK_EXISTS.
+ */
+export async function recordSuggestionFeedback(
+  accountId: string,
+  userId: string,
+  jobId: string,
+  input: SuggestionFeedbackInput
+): Promise<SuggestionFeedbackResult> {
+  const result = await getSuggestionResult(accountId, jobId);
+  if (!result) {
+    throw new Error('SUGGESTION_NOT_FOUND');
+  }
+
+  if (result.status !== 'completed' || !result.suggestion) {
+    throw new Error('SUGGESTION_NOT_COMPLETED');
+  }
+
+  const variant = result.suggestion.variants[input.variantIndex];
+  if (!variant) {
+    throw new Error('VARIANT_NOT_FOUND');
+  }
+
+  const claimed = await redis.set(feedbackKey(accountId, jobId), input.outcome, 'EX', FEEDBACK_TTL_SECONDS, 'NX');
+  if (claimed !== 'OK') {
+    throw new Error('FEEDBACK_EXISTS');
+  }
+
+  const finalText = input.outcome === 'rejected' ? undefined : input.finalText ?? variant.suggestedMessage;
+  const distance = finalText !== undefined ? editDistance(variant.suggestedMessage, finalText) : null;
+
+  try {
+    await db.insert(actions).values({
+      account_id: accountId,
+      user_id: userId,
+      thread_id: input.threadId,
+      action_type: `suggestion_${input.outcome}`,
+      metadata: {
+        job_id: jobId,
+        variant_index: input.variantIndex,
+        variant_tone: variant.tone,
+        suggested_length: variant.suggestedMessage.length,
+        final_text: finalText ?? null,
+        final_length: finalText?.length ?? null,
+        edit_distance: distance,
+      },
+      ip_address: input.ipAddress,
+      user_agent: input.userAgent,
+    });
+  } catch (error) {
+    // Release the claim so the client can retry.
+    await redis.del(feedbackKey(accountId, jobId));
+    throw error;
+  }
+
+  return { outcome: input.outcome, editDistance: distance };
+}
+
+/**
+ * Levenshtein distance (insertions, deletions and substitutions all cost 1).
+ */
+export function editDistance(source: string, target: string): number {
+  if (source === target) return 0;
+  if (source.length === 0) return target.length;
+  if (target.length === 0) return source.length;
+
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+  let current = new Array<number>(target.length + 1).fill(0);
+
+  for (let i = 1; i <= source.length; i += 1) {
+    current[0] = i;
+    for (let j = 1; j <= target.length; j += 1) {
+      const substitution = (previous[j - 1] as number) + (source[i - 1] === target[j - 1] ? 0 : 1);
+      current[j] = Math.min((previous[j] as number) + 1, (current[j - 1] as number) + 1, substitution);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[target.length] as number;
+}
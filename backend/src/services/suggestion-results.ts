@@ -1,5 +1,6 @@
 import { redis } from '../redis/client.js';
 import type { SuggestionResponse } from '../types/index.js';
+import { publishSuggestionEvent } from './suggestion-stream.js';
 
 export type SuggestionJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
@@ -8,6 +9,8 @@ export interface SuggestionJobResult {
   status: SuggestionJobStatus;
   suggestion: SuggestionResponse | null;
   error: string | null;
+  /** The model that answered; set on completed jobs, and differs from the plan's first model after a fallback. */
+  servedBy?: { provider: string; model: string };
   updatedAt: string;
 }
 
@@ -24,6 +27,7 @@ export async function setSuggestionResult(
 ): Promise<void> {
   const key = suggestionResultKey(accountId, jobId);
   await redis.set(key, JSON.stringify(result), 'EX', RESULT_TTL_SECONDS);
+  await publishSuggestionEvent(accountId, jobId, { type: 'status', result });
 }
 
 export async function getSuggestionResult(
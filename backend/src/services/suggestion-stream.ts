@@ -0,0 +1,93 @@
+import { redis } from '../redis/client.js';
+import { extractPartialSuggestedMessage } from './response-parser.js';
+import type { SuggestionJobResult } from './suggestion-results.js';
+
+export type SuggestionStreamEvent =
+  | { type: 'status'; result: SuggestionJobResult }
+  | { type: 'partial'; jobId: string; delta: string; suggestedMessage: string };
+
+export function suggestionChannel(accountId: string, jobId: string): string {
+  return `suggestion-events:${accountId}:${jobId}`;
+}
+
+export async function publishSuggestionEvent(
+  accountId: string,
+  jobId: string,
+  event: SuggestionStreamEvent
+): Promise<void> {
+  await redis.publish(suggestionChannel(accountId, jobId), JSON.stringify(event));
+}
+
+/**
+ * Subscribes to a job's event channel on a dedicated Redis connection
+ * (a subscribed connection cannot issue regular commands).
+ * Resolves once the subscription is active and returns an unsubscribe function.
+ */
+export async function subscribeSuggestionEvents(
+  accountId: string,
+  jobId: string,
+  onEvent: (event: SuggestionStreamEvent) => void
+): Promise<() => Promise<void>> {
+  const channel = suggestionChannel(accountId, jobId);
+  const subscriber = redis.duplicate();
+
+  subscriber.on('error', (error: unknown) => {
+    console.error('Suggestion stream Redis connection error:', error);
+  });
+
+  subscriber.on('message', (receivedChannel: string, raw: string) => {
+    if (receivedChannel !== channel) {
+      return;
+    }
+
+    try {
+      onEvent(JSON.parse(raw) as SuggestionStreamEvent);
+    } catch {
+      // Ignore malformed events
+    }
+  });
+
+  await subscriber.subscribe(channel);
+
+  return async () => {
+    try {
+      await subscriber.unsubscribe(channel);
+      await subscriber.quit();
+    } catch {
+      subscriber.disconnect();
+    }
+  };
+}
+
+/**
+ * Returns a text callback for the Claude client that publishes the partial
+ * `suggestedMessage` decoded from the JSON the model is still writing.
+ */
+export function createPartialMessagePublisher(
+  accountId: string,
+  jobId: string
+): (text: string) => void {
+  let raw = '';
+  let published = '';
+
+  return (text: string) => {
+    raw += text;
+    const suggestedMessage = extractPartialSuggestedMessage(raw);
+
+    if (suggestedMessage === null || suggestedMessage.length <= published.length) {
+      return;
+    }
+
+    const delta = suggestedMessage.slice(published.length);
+    published = suggestedMessage;
+
+    publishSuggestionEvent(accountId, jobId, {
+      type: 'partial',
+      jobId,
+      delta,
+      suggestedMessage,
+    }).catch((error: unknown) => {
+      console.error('Failed to publish partial suggestion:', error);
+    });
+  };
+}
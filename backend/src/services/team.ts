@@ -0,0 +1,429 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, asc, count, desc, eq, gt, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { accountInvites, accounts, actions, authSessions, users, type AccountInvite } from '../db/schema.js';
+import { USER_ROLES, type UserRole } from '../types/index.js';
+import { mergeAccounts } from './account-merge.js';
+import { PLAN_ENTITLEMENTS } from './entitlements.js';
+import { getAccountPlan } from './plan.js';
+import { revokeSession } from './sessions.js';
+
+export interface TeamMember {
+  id: string;
+  email: string | null;
+  emailVerified: boolean;
+  role: UserRole;
+  createdAt: string;
+  lastSeenAt: string | null;
+}
+
+export interface TeamInvite {
+  id: string;
+  role: UserRole;
+  createdBy: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface TeamSnapshot {
+  seats: { used: number; limit: number };
+  members: TeamMember[];
+  /** Only returned to admins and owners. */
+  invites: TeamInvite[] | null;
+}
+
+export interface CreatedInvite extends TeamInvite {
+  token: string;
+  inviteUrl: string;
+}
+
+export interface TeamClient {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const INVITE_URL_BASE = process.env.INVITE_URL_BASE ?? 'https://pons.solutions/invite';
+
+function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function toUserRole(value: string): UserRole {
+  return (USER_ROLES as readonly string[]).includes(value) ? value as UserRole : 'member';
+}
+
+/**
+ * The account's longest-standing owner, used as the user for account-level actions.
+ */
+export async function getAccountOwnerId(accountId: string): Promise<string | null> {
+  const [owner] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.account_id, accountId), eq(users.role, 'owner')))
+    .orderBy(asc(users.created_at))
+    .limit(1);
+
+  return owner?.id ?? null;
+}
+
+/**
+ * True when `role` is at least as privileged as `minimum`.
+ */
+export function hasRole(role: UserRole, minimum: UserRole): boolean {
+  return USER_ROLES.indexOf(role) <= USER_ROLES.indexOf(minimum);
+}
+
+export async function getUserRole(accountId: string, userId: string): Promise<UserRole | null> {
+  const [user] = await db
+    .select({ role: users.role })
+    .from(users)
+    .where(and(eq(users.id, userId), eq(users.account_id, accountId)))
+    .limit(1);
+
+  return user ? toUserRole(user.role) : null;
+}
+
+/**
+ * Seats are people, not devices: devices sharing a verified email take one seat.
+ * `extraUserIds` counts users about to join as if they already had.
+ */
+export async function countSeats(accountId: string, extraUserIds: string[] = []): Promise<number> {
+  const scope = extraUserIds.length > 0
+    ? or(eq(users.account_id, accountId), inArray(users.id, extraUserIds))
+    : eq(users.account_id, accountId);
+
+  const [row] = await db
+    .select({
+      seats: sql<number>`count(distinct coalesce(case when ${users.email_verified_at} is not null then ${users.email} end, ${users.id}::text))`,
+    })
+    .from(users)
+    .where(scope);
+
+  return Number(row?.seats ?? 0);
+}
+
+export async function getTeam(accountId: string, viewerRole: UserRole): Promise<TeamSnapshot> {
+  const { plan } = await getAccountPlan(accountId);
+
+  const [members, seats] = await Promise.all([
+    db
+      .select()
+      .from(users)
+      .where(eq(users.account_id, accountId))
+      .orderBy(asc(users.created_at)),
+    countSeats(accountId),
+  ]);
+
+  const invites = hasRole(viewerRole, 'admin')
+    ? (await listPendingInvites(accountId)).map(toTeamInvite)
+    : null;
+
+  return {
+    seats: { used: seats, limit: PLAN_ENTITLEMENTS[plan].seats },
+    members: members.map((member) => ({
+      id: member.id,
+      email: member.email,
+      emailVerified: member.email_verified_at !== null,
+      role: toUserRole(member.role),
+      createdAt: member.created_at.toISOString(),
+      lastSeenAt: member.last_seen_at?.toISOString() ?? null,
+    })),
+    invites,
+  };
+}
+
+/**
+ * Creates a single-use invite link. Pending invites hold a seat until they expire.
+ * Only owners may invite other admins or owners.
+ *
+ * Throws FORBIDDEN_ROLE or SEAT_LIMIT_REACHED.
+ */
+export async function createInvite(
+  accountId: string,
+  actor: { id: string; role: UserRole },
+  role: UserRole
+): Promise<CreatedInvite> {
+  if (!hasRole(actor.role, 'admin') || (role !== 'member' && actor.role !== 'owner')) {
+    throw new Error('FORBIDDEN_ROLE');
+  }
+
+  const { plan } = await getAccountPlan(accountId);
+  const [seats, pending] = await Promise.all([countSeats(accountId), listPendingInvites(accountId)]);
+  if (seats + pending.length >= PLAN_ENTITLEMENTS[plan].seats) {
+    throw new Error('SEAT_LIMIT_REACHED');
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const [invite] = await db
+    .insert(accountInvites)
+    .values({
+      account_id: accountId,
+      created_by: actor.id,
+      role,
+      token_hash: hashInviteToken(token),
+      expires_at: new Date(Date.now() + INVITE_TTL_MS),
+    })
+    .returning();
+
+  return {
+    ...toTeamInvite(invite),
+    token,
+    inviteUrl: `${INVITE_URL_BASE}?token=${encodeURIComponent(token)}`,
+  };
+}
+
+/**
+ * Throws INVITE_NOT_FOUND.
+ */
+export async function revokeInvite(accountId: string, inviteId: string): Promise<void> {
+  const [revoked] = await db
+    .update(accountInvites)
+    .set({ revoked_at: new Date() })
+    .where(and(
+      eq(accountInvites.id, inviteId),
+      eq(accountInvites.account_id, accountId),
+      isNull(accountInvites.accepted_at),
+      isNull(accountInvites.revoked_at)
+    ))
+    .returning({ id: accountInvites.id });
+
+  if (!revoked) {
+    throw new Error('INVITE_NOT_FOUND');
+  }
+}
+
+/**
+ * Moves the accepting device, and the single-user free account it came with, into
+ * the inviting account with the invite's role.
+ *
+ * Throws INVITE_NOT_FOUND, INVITE_EXPIRED, ALREADY_MEMBER, ACCOUNT_HAS_MEMBERS,
+ * ACCOUNT_MERGE_CONFLICT or SEAT_LIMIT_REACHED.
+ */
+export async function acceptInvite(
+  accountId: string,
+  userId: string,
+  token: string,
+  client: TeamClient
+): Promise<{ accountId: string; role: UserRole }> {
+  const [invite] = await db
+    .select()
+    .from(accountInvites)
+    .where(eq(accountInvites.token_hash, hashInviteToken(token)))
+    .limit(1);
+
+  if (!invite || invite.accepted_at || invite.revoked_at) {
+    throw new Error('INVITE_NOT_FOUND');
+  }
+
+  if (invite.expires_at.getTime() <= Date.now()) {
+    throw new Error('INVITE_EXPIRED');
+  }
+
+  if (invite.account_id === accountId) {
+    throw new Error('ALREADY_MEMBER');
+  }
+
+  const [{ value: sourceUsers }] = await db
+    .select({ value: count() })
+    .from(users)
+    .where(eq(users.account_id, accountId));
+  if (sourceUsers > 1) {
+    throw new Error('ACCOUNT_HAS_MEMBERS');
+  }
+
+  const [sourcePlan, targetPlan] = await Promise.all([
+    getAccountPlan(accountId),
+    getAccountPlan(invite.account_id),
+  ]);
+  if (sourcePlan.plan !== 'free') {
+    throw new Error('ACCOUNT_MERGE_CONFLICT');
+  }
+
+  // The invite's own pending seat is released as it is accepted.
+  if (await countSeats(invite.account_id, [userId]) > PLAN_ENTITLEMENTS[targetPlan.plan].seats) {
+    throw new Error('SEAT_LIMIT_REACHED');
+  }
+
+  const [claimed] = await db
+    .update(accountInvites)
+    .set({ accepted_at: new Date(), accepted_by: userId })
+    .where(and(
+      eq(accountInvites.id, invite.id),
+      isNull(accountInvites.accepted_at),
+      isNull(accountInvites.revoked_at)
+    ))
+    .returning({ id: accountInvites.id });
+
+  if (!claimed) {
+    throw new Error('INVITE_NOT_FOUND');
+  }
+
+  let sessionIds: string[];
+  try {
+    sessionIds = await mergeAccounts(accountId, invite.account_id);
+  } catch (error) {
+    await db
+      .update(accountInvites)
+      .set({ accepted_at: null, accepted_by: null })
+      .where(eq(accountInvites.id, invite.id));
+    throw error;
+  }
+
+  const role = toUserRole(invite.role);
+  await db.update(users).set({ role }).where(eq(users.id, userId));
+
+  for (const sessionId of sessionIds) {
+    await revokeSession(sessionId, 'account_merged');
+  }
+
+  await db.insert(actions).values({
+    account_id: invite.account_id,
+    user_id: userId,
+    action_type: 'invite_accepted',
+    metadata: { invite_id: invite.id, role, merged_account_id: accountId },
+    ip_address: client.ipAddress,
+    user_agent: client.userAgent,
+  });
+
+  return { accountId: invite.account_id, role };
+}
+
+/**
+ * Only owners change roles, and an account always keeps at least one owner.
+ *
+ * Throws FORBIDDEN_ROLE, MEMBER_NOT_FOUND or LAST_OWNER.
+ */
+export async function updateMemberRole(
+  accountId: string,
+  actor: { id: string; role: UserRole },
+  memberId: string,
+  role: UserRole
+): Promise<TeamMember> {
+  if (actor.role !== 'owner') {
+    throw new Error('FORBIDDEN_ROLE');
+  }
+
+  const member = await getMember(accountId, memberId);
+
+  if (member.role === 'owner' && role !== 'owner' && !(await hasOtherOwner(accountId, memberId))) {
+    throw new Error('LAST_OWNER');
+  }
+
+  const [updated] = await db
+    .update(users)
+    .set({ role })
+    .where(eq(users.id, member.id))
+    .returning();
+
+  return {
+    id: updated.id,
+    email: updated.email,
+    emailVerified: updated.email_verified_at !== null,
+    role: toUserRole(updated.role),
+    createdAt: updated.created_at.toISOString(),
+    lastSeenAt: updated.last_seen_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Removes a device from the account. It is moved to a new free account of its own,
+ * so it can keep working, and its sessions are revoked. Members may remove themselves;
+ * otherwise admins remove members and owners remove anyone.
+ *
+ * Throws FORBIDDEN_ROLE, MEMBER_NOT_FOUND or LAST_OWNER.
+ */
+export async function removeMember(
+  accountId: string,
+  actor: { id: string; role: UserRole },
+  memberId: string,
+  client: TeamClient
+): Promise<void> {
+  const member = await getMember(accountId, memberId);
+  const removingSelf = member.id === actor.id;
+
+  if (!removingSelf) {
+    const outranks = actor.role === 'owner' || (actor.role === 'admin' && member.role === 'member');
+    if (!outranks) {
+      throw new Error('FORBIDDEN_ROLE');
+    }
+  }
+
+  if (member.role === 'owner' && !(await hasOtherOwner(accountId, member.id))) {
+    throw new Error('LAST_OWNER');
+  }
+
+  const activeSessions = await db
+    .select({ id: authSessions.id })
+    .from(authSessions)
+    .where(and(eq(authSessions.user_id, member.id), isNull(authSessions.revoked_at)));
+
+  const newAccountId = await db.transaction(async (tx) => {
+    const [account] = await tx.insert(accounts).values({}).returning({ id: accounts.id });
+    await tx
+      .update(users)
+      .set({ account_id: account.id, role: 'owner' })
+      .where(eq(users.id, member.id));
+    return account.id;
+  });
+
+  for (const session of activeSessions) {
+    await revokeSession(session.id, 'revoked_by_user');
+  }
+
+  await db.insert(actions).values({
+    account_id: accountId,
+    user_id: actor.id,
+    action_type: 'member_removed',
+    metadata: { member_id: member.id, new_account_id: newAccountId },
+    ip_address: client.ipAddress,
+    user_agent: client.userAgent,
+  });
+}
+
+async function getMember(accountId: string, memberId: string): Promise<{ id: string; role: UserRole }> {
+  const [member] = await db
+    .select({ id: users.id, role: users.role })
+    .from(users)
+    .where(and(eq(users.id, memberId), eq(users.account_id, accountId)))
+    .limit(1);
+
+  if (!member) {
+    throw new Error('MEMBER_NOT_FOUND');
+  }
+
+  return { id: member.id, role: toUserRole(member.role) };
+}
+
+async function hasOtherOwner(accountId: string, userId: string): Promise<boolean> {
+  const [other] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.account_id, accountId), eq(users.role, 'owner'), ne(users.id, userId)))
+    .limit(1);
+
+  return Boolean(other);
+}
+
+async function listPendingInvites(accountId: string): Promise<AccountInvite[]> {
+  return db
+    .select()
+    .from(accountInvites)
+    .where(and(
+      eq(accountInvites.account_id, accountId),
+      isNull(accountInvites.accepted_at),
+      isNull(accountInvites.revoked_at),
+      gt(accountInvites.expires_at, new Date())
+    ))
+    .orderBy(desc(accountInvites.created_at));
+}
+
+function toTeamInvite(invite: AccountInvite): TeamInvite {
+  return {
+    id: invite.id,
+    role: toUserRole(invite.role),
+    createdBy: invite.created_by,
+    expiresAt: invite.expires_at.toISOString(),
+    createdAt: invite.created_at.toISOString(),
+  };
+}
@@ -0,0 +1,153 @@
+import { createHash } from 'node:crypto';
+import { and, desc, eq, isNotNull, lt } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { messages, type Message } from '../db/schema.js';
+import type { ThreadContext } from '../types/index.js';
+
+type SenderType = Message['sender_type'];
+
+export interface ThreadMessage {
+  id: string;
+  senderType: SenderType;
+  text: string;
+  timestamp: number;
+  wasSentAuto: boolean;
+}
+
+export function hashMessageContent(text: string, timestamp: number): string {
+  return createHash('sha256').update(`${timestamp}:${text}`).digest('hex');
+}
+
+/**
+ * Hash for a scraped message at `position` in the thread's stored sequence. Scraped timestamps
+ * are often the scrape time (or parsed from "N min ago"), so they are left out.
+ */
+export function hashTranscriptMessage(senderType: SenderType, text: string, position: number): string {
+  return createHash('sha256').update(`${senderType}:${position}:${text}`).digest('hex');
+}
+
+interface TranscriptEntry {
+  senderType: SenderType;
+  text: string;
+}
+
+function sameEntry(a: TranscriptEntry, b: TranscriptEntry): boolean {
+  return a.senderType === b.senderType && a.text === b.text;
+}
+
+/**
+ * Index in `window` just past the longest run that repeats the end of `storedTail`, or 0 when
+ * they do not overlap. Ties go to the earliest run, since the scraped window loses messages at
+ * its start and gains them at its end.
+ */
+export function findStoredOverlapEnd(storedTail: TranscriptEntry[], window: TranscriptEntry[]): number {
+  for (let length = Math.min(storedTail.length, window.length); length > 0; length--) {
+    const tail = storedTail.slice(storedTail.length - length);
+    for (let start = 0; start + length <= window.length; start++) {
+      if (tail.every((entry, offset) => sameEntry(entry, window[start + offset]))) {
+        return start + length;
+      }
+    }
+  }
+  return 0;
+}
+
+/**
+ * Stores the scraped transcript for a thread. The scraped window is matched against the tail of
+ * the stored messages, and only what follows the overlap is appended, so repeated replies
+ * ("ok", "thanks") are kept while re-sent ones are not. A window with no overlap is appended
+ * whole. Positions are part of the content hash, so concurrent saves of the same window collide
+ * on (thread, content hash) instead of duplicating messages.
+ *
+ * The extension user is recorded as the buyer for buy_item and as the seller otherwise.
+ */
+export async function saveThreadMessages(
+  threadId: string,
+  transcript: ThreadContext['messages'],
+  conversationGoal: string
+): Promise<void> {
+  if (transcript.length === 0) {
+    return;
+  }
+
+  const userSender: SenderType = conversationGoal === 'buy_item' ? 'buyer' : 'seller';
+  const otherSender: SenderType = userSender === 'buyer' ? 'seller' : 'buyer';
+
+  const window = transcript.map((message) => ({
+    senderType: message.isUser ? userSender : otherSender,
+    text: message.text,
+    timestamp: message.timestamp,
+  }));
+
+  const storedTail = (
+    await db
+      .select({ senderType: messages.sender_type, text: messages.text, position: messages.position })
+      .from(messages)
+      .where(and(eq(messages.thread_id, threadId), isNotNull(messages.position)))
+      .orderBy(desc(messages.position))
+      .limit(window.length)
+  ).reverse();
+
+  const fresh = window.slice(findStoredOverlapEnd(storedTail, window));
+  if (fresh.length === 0) {
+    return;
+  }
+
+  const nextPosition = (storedTail.at(-1)?.position ?? -1) + 1;
+
+  await db
+    .insert(messages)
+    .values(
+      fresh.map((message, index) => ({
+        thread_id: threadId,
+        sender_type: message.senderType,
+        text: message.text,
+        timestamp: new Date(message.timestamp),
+        position: nextPosition + index,
+        content_hash: hashTranscriptMessage(message.senderType, message.text, nextPosition + index),
+      }))
+    )
+    .onConflictDoNothing({ target: [messages.thread_id, messages.content_hash] });
+}
+
+export async function saveSuggestionMessage(threadId: string, text: string): Promise<void> {
+  const now = Date.now();
+
+  await db
+    .insert(messages)
+    .values({
+      thread_id: threadId,
+      sender_type: 'claude',
+      text,
+      timestamp: new Date(now),
+      content_hash: hashMessageContent(text, now),
+    })
+    .onConflictDoNothing({ target: [messages.thread_id, messages.content_hash] });
+}
+
+/**
+ * Returns up to `limit` messages older than `before` (epoch ms), oldest first.
+ */
+export async function listThreadMessages(
+  threadId: string,
+  options: { limit: number; before?: number }
+): Promise<ThreadMessage[]> {
+  const rows = await db
+    .select()
+    .from(messages)
+    .where(
+      options.before !== undefined
+        ? and(eq(messages.thread_id, threadId), lt(messages.timestamp, new Date(options.before)))
+        : eq(messages.thread_id, threadId)
+    )
+    .orderBy(desc(messages.timestamp), desc(messages.created_at))
+    .limit(options.limit);
+
+  return rows.reverse().map((row) => ({
+    id: row.id,
+    senderType: row.sender_type,
+    text: row.text,
+    timestamp: row.timestamp.getTime(),
+    wasSentAuto: row.was_sent_auto,
+  }));
+}
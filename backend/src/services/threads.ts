@@ -0,0 +1,186 @@
+import { and, desc, eq, gte, lte, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { threads, type Thread } from '../db/schema.js';
+import type { ThreadStatus } from '../types/index.js';
+
+export interface ThreadSummary {
+  id: string;
+  fbThreadId: string;
+  status: string;
+  intentScore: number | null;
+  listing: {
+    title: string | null;
+    price: string | null;
+    url: string | null;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ThreadListFilters {
+  statuses?: ThreadStatus[];
+  minIntent?: number;
+  listing?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  cursor?: string;
+  limit: number;
+}
+
+export interface ThreadPage {
+  threads: ThreadSummary[];
+  nextCursor: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// updated_at is stored with microseconds but the cursor carries a JS Date, so compare at ms precision.
+const updatedAtMs = sql`date_trunc('milliseconds', ${threads.updated_at})`;
+
+/**
+ * Looks up a thread owned by the account. `threadKey` may be the thread's id or its Facebook thread id.
+ */
+export async function findThreadId(accountId: string, threadKey: string): Promise<string | null> {
+  const thread = await findThread(accountId, threadKey);
+  return thread?.id ?? null;
+}
+
+export async function getThread(accountId: string, threadKey: string): Promise<ThreadSummary | null> {
+  const thread = await findThread(accountId, threadKey);
+  return thread ? toThreadSummary(thread) : null;
+}
+
+/**
+ * Lists the account's threads, most recently updated first.
+ * Throws INVALID_CURSOR when the cursor cannot be decoded.
+ */
+export async function listThreads(accountId: string, filters: ThreadListFilters): Promise<ThreadPage> {
+  const conditions: SQL[] = [eq(threads.account_id, accountId)];
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    const statusMatch = or(...filters.statuses.map((status) => eq(threads.status, status)));
+    if (statusMatch) {
+      conditions.push(statusMatch);
+    }
+  }
+
+  if (filters.minIntent !== undefined) {
+    conditions.push(gte(threads.intent_score, filters.minIntent.toFixed(2)));
+  }
+
+  if (filters.listing) {
+    const pattern = `%${filters.listing.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    conditions.push(
+      sql`(${threads.listing_data}->>'title' ILIKE ${pattern} OR ${threads.listing_data}->>'url' = ${filters.listing})`
+    );
+  }
+
+  if (filters.updatedAfter) {
+    conditions.push(gte(threads.updated_at, new Date(filters.updatedAfter)));
+  }
+
+  if (filters.updatedBefore) {
+    conditions.push(lte(threads.updated_at, new Date(filters.updatedBefore)));
+  }
+
+  if (filters.cursor) {
+    const cursor = decodeCursor(filters.cursor);
+    conditions.push(sql`(${updatedAtMs}, ${threads.id}) < (${cursor.updatedAt}::timestamp, ${cursor.id}::uuid)`);
+  }
+
+  const rows = await db
+    .select()
+    .from(threads)
+    .where(and(...conditions))
+    .orderBy(desc(updatedAtMs), desc(threads.id))
+    .limit(filters.limit + 1);
+
+  const page = rows.slice(0, filters.limit);
+  const last = page[page.length - 1];
+
+  return {
+    threads: page.map(toThreadSummary),
+    nextCursor: rows.length > filters.limit && last ? encodeCursor(last) : null,
+  };
+}
+
+export async function updateThreadStatus(
+  accountId: string,
+  threadKey: string,
+  status: ThreadStatus
+): Promise<{ previousStatus: string; thread: ThreadSummary } | null> {
+  const existing = await findThread(accountId, threadKey);
+  if (!existing) {
+    return null;
+  }
+
+  const [updated] = await db
+    .update(threads)
+    .set({ status, updated_at: new Date() })
+    .where(eq(threads.id, existing.id))
+    .returning();
+
+  if (!updated) {
+    return null;
+  }
+
+  return { previousStatus: existing.status, thread: toThreadSummary(updated) };
+}
+
+/**
+ * Stores the latest suggestion's intent score on the thread.
+ */
+export async function recordThreadIntent(threadId: string, intentScore: number): Promise<void> {
+  const clamped = Math.min(1, Math.max(0, intentScore));
+
+  await db
+    .update(threads)
+    .set({ intent_score: clamped.toFixed(2), updated_at: new Date() })
+    .where(eq(threads.id, threadId));
+}
+
+async function findThread(accountId: string, threadKey: string): Promise<Thread | null> {
+  const keyMatch = UUID_PATTERN.test(threadKey)
+    ? or(eq(threads.id, threadKey), eq(threads.fb_thread_id, threadKey))
+    : eq(threads.fb_thread_id, threadKey);
+
+  const [thread] = await db
+    .select()
+    .from(threads)
+    .where(and(eq(threads.account_id, accountId), keyMatch))
+    .limit(1);
+
+  return thread ?? null;
+}
+
+function toThreadSummary(thread: Thread): ThreadSummary {
+  const listing = (thread.listing_data ?? {}) as Record<string, unknown>;
+
+  return {
+    id: thread.id,
+    fbThreadId: thread.fb_thread_id,
+    status: thread.status,
+    intentScore: thread.intent_score !== null ? Number(thread.intent_score) : null,
+    listing: {
+      title: typeof listing.title === 'string' ? listing.title : null,
+      price: typeof listing.price === 'string' ? listing.price : null,
+      url: typeof listing.url === 'string' ? listing.url : null,
+    },
+    createdAt: thread.created_at.toISOString(),
+    updatedAt: thread.updated_at.toISOString(),
+  };
+}
+
+function encodeCursor(thread: Thread): string {
+  return Buffer.from(`${thread.updated_at.toISOString()}|${thread.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { updatedAt: string; id: string } {
+  const [updatedAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+
+  if (!updatedAt || !id || Number.isNaN(Date.parse(updatedAt)) || !UUID_PATTERN.test(id)) {
+    throw new Error('INVALID_CURSOR');
+  }
+
+  return { updatedAt, id };
+}
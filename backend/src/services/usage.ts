@@ -0,0 +1,184 @@
+import type { FastifyReply } from 'fastify';
+import { redis } from '../redis/client.js';
+import type { AccountPlan, PlanTier } from './plan.js';
+import { getEntitlements } from './entitlements.js';
+
+// Keep counters a little past the window so late reads of the previous period still work.
+const USAGE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+const OUTPUT_TOKENS_PER_VARIANT = 300;
+
+export interface TokenBudgetStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface UsageSnapshot {
+  plan: PlanTier;
+  day: {
+    start: string;
+    resetsAt: string;
+    requests: { used: number; limit: number; remaining: number };
+    /** The calling user's share of the account's daily requests; null for account-wide snapshots. */
+    userRequests: { used: number; limit: number; remaining: number } | null;
+    tokens: { used: number };
+  };
+  period: {
+    start: string;
+    resetsAt: string;
+    requests: { used: number };
+    tokens: { used: number; limit: number; remaining: number };
+  };
+}
+
+export function dailyRequestKey(accountId: string, now: Date = new Date()): string {
+  return `rate_limit:${accountId}:${now.toISOString().slice(0, 10)}`;
+}
+
+export function dailyUserRequestKey(accountId: string, userId: string, now: Date = new Date()): string {
+  return `rate_limit:${accountId}:user:${userId}:${now.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Billing periods are UTC calendar months.
+ */
+export function getBillingPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+export function getUtcDay(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+  };
+}
+
+/**
+ * Adds a completed generation to the account's daily and billing-period counters.
+ */
+export async function recordUsage(accountId: string, totalTokens: number, now: Date = new Date()): Promise<void> {
+  const day = getUtcDay(now);
+  const period = getBillingPeriod(now);
+  const dayKey = dailyUsageKey(accountId, day.start);
+  const periodKey = periodUsageKey(accountId, period.start);
+
+  await redis
+    .multi()
+    .hincrby(dayKey, 'requests', 1)
+    .hincrby(dayKey, 'tokens', totalTokens)
+    .expireat(dayKey, toUnixSeconds(day.end) + USAGE_RETENTION_SECONDS)
+    .hincrby(periodKey, 'requests', 1)
+    .hincrby(periodKey, 'tokens', totalTokens)
+    .expireat(periodKey, toUnixSeconds(period.end) + USAGE_RETENTION_SECONDS)
+    .exec();
+}
+
+export async function getTokenBudgetStatus(
+  accountId: string,
+  accountPlan: AccountPlan,
+  now: Date = new Date()
+): Promise<TokenBudgetStatus> {
+  const period = getBillingPeriod(now);
+  const used = toCount(await redis.hget(periodUsageKey(accountId, period.start), 'tokens'));
+  const limit = getEntitlements(accountPlan).monthlyTokenBudget;
+
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetAt: period.end,
+  };
+}
+
+export function setTokenBudgetHeaders(reply: FastifyReply, status: TokenBudgetStatus): void {
+  reply.header('X-TokenBudget-Limit', status.limit.toString());
+  reply.header('X-TokenBudget-Remaining', status.remaining.toString());
+  reply.header('X-TokenBudget-Reset', status.resetAt.getTime().toString());
+}
+
+/**
+ * Rough upper bound on what a suggestion will cost: ~4 characters per prompt token
+ * plus the output allowance for each requested variant.
+ */
+export function estimateSuggestionTokens(messages: Array<{ text: string }>, variantCount: number): number {
+  const transcriptChars = messages.reduce((total, message) => total + message.text.length + 8, 0);
+  return Math.ceil(transcriptChars / 4) + OUTPUT_TOKENS_PER_VARIANT * variantCount;
+}
+
+export async function getUsageSnapshot(
+  accountId: string,
+  userId: string | null,
+  accountPlan: AccountPlan,
+  now: Date = new Date()
+): Promise<UsageSnapshot> {
+  const { plan } = accountPlan;
+  const day = getUtcDay(now);
+  const period = getBillingPeriod(now);
+
+  const [dailyRequests, userDailyRequests, dayUsage, periodUsage] = await Promise.all([
+    redis.get(dailyRequestKey(accountId, now)),
+    userId ? redis.get(dailyUserRequestKey(accountId, userId, now)) : Promise.resolve(null),
+    redis.hgetall(dailyUsageKey(accountId, day.start)),
+    redis.hgetall(periodUsageKey(accountId, period.start)),
+  ]);
+
+  const entitlements = getEntitlements(accountPlan);
+  const requestLimit = entitlements.dailyRequests;
+  const userRequestLimit = entitlements.userDailyRequests;
+  const requestsToday = toCount(dailyRequests);
+  const userRequestsToday = toCount(userDailyRequests);
+  const tokenLimit = entitlements.monthlyTokenBudget;
+  const periodTokens = toCount(periodUsage.tokens);
+
+  return {
+    plan,
+    day: {
+      start: day.start.toISOString(),
+      resetsAt: day.end.toISOString(),
+      requests: {
+        used: requestsToday,
+        limit: requestLimit,
+        remaining: Math.max(0, requestLimit - requestsToday),
+      },
+      userRequests: userId
+        ? {
+          used: userRequestsToday,
+          limit: userRequestLimit,
+          remaining: Math.max(0, userRequestLimit - userRequestsToday),
+        }
+        : null,
+      tokens: { used: toCount(dayUsage.tokens) },
+    },
+    period: {
+      start: period.start.toISOString(),
+      resetsAt: period.end.toISOString(),
+      requests: { used: toCount(periodUsage.requests) },
+      tokens: {
+        used: periodTokens,
+        limit: tokenLimit,
+        remaining: Math.max(0, tokenLimit - periodTokens),
+      },
+    },
+  };
+}
+
+function dailyUsageKey(accountId: string, dayStart: Date): string {
+  return `usage:${accountId}:${dayStart.toISOString().slice(0, 10)}`;
+}
+
+function periodUsageKey(accountId: string, periodStart: Date): string {
+  return `usage:${accountId}:${periodStart.toISOString().slice(0, 7)}`;
+}
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+function toCount(value: string | null | undefined): number {
+  const parsed = value ? parseInt(value, 10) : 0;
+  return Number.isFinite(parsed) ? parsed : 0;
+}
@@ -1,5 +1,42 @@
 import { z } from 'zod';
 
+// Conversation goals with a dedicated prompt in services/prompt-builder.ts
+export const CONVERSATION_GOALS = [
+  'buy_item',
+  'sell_item',
+  'negotiate_price',
+  'arrange_pickup',
+  'general_assistance',
+] as const;
+
+export type ConversationGoal = (typeof CONVERSATION_GOALS)[number];
+
+export const PRESET_TONES = ['friendly', 'professional', 'casual'] as const;
+
+export type PresetTone = (typeof PRESET_TONES)[number];
+
+// Sales pipeline stages a thread moves through (threads.status)
+export const THREAD_STATUSES = ['inquiry', 'negotiating', 'scheduled', 'sold', 'lost'] as const;
+
+export type ThreadStatus = (typeof THREAD_STATUSES)[number];
+
+// Team roles on users.role, most privileged first
+export const USER_ROLES = ['owner', 'admin', 'member'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Permissions an admin API key can carry (admin_api_keys.scopes)
+export const ADMIN_SCOPES = [
+  'plans:write',
+  'accounts:read',
+  'accounts:suspend',
+  'analytics:read',
+  'circuits:read',
+  'circuits:write',
+] as const;
+
+export type AdminScope = (typeof ADMIN_SCOPES)[number];
+
 // Request context (attached by auth middleware)
 export interface RequestContext {
   accountId: string;
@@ -22,6 +59,7 @@ export const ThreadContextSchema = z.object({
   persistentContext: z.string().min(1).optional(),
   deviceFingerprint: z.string().min(10).optional(),
   userMessage: z.string().min(1).optional(),
+  variantCount: z.number().int().min(1).max(5).optional(),
   messages: z.array(
     z.object({
       senderId: z.string(),
@@ -34,12 +72,30 @@ export const ThreadContextSchema = z.object({
 
 export type ThreadContext = z.infer<typeof ThreadContextSchema>;
 
-// Suggestion response
+export type NextAction = 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+
+// One ranked alternative reply; variants[0] is the model's top pick
+export interface SuggestionVariant {
+  suggestedMessage: string;
+  tone: string;
+  intentScore: number;
+  reasoning: string;
+  nextAction: NextAction;
+}
+
+// `fallback` marks template replies from ai/fallback-suggester.ts, served when no model is available
+export type SuggestionSource = 'model' | 'fallback';
+
+// Suggestion response (top-level fields mirror the first variant)
 export interface SuggestionResponse {
   suggestedMessage: string;
   intentScore: number;
   reasoning: string;
-  nextAction: 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+  nextAction: NextAction;
+  variants: SuggestionVariant[];
+  source: SuggestionSource;
+  /** Character limit every suggestedMessage was fitted to; set once generation finishes. */
+  maxLength?: number;
 }
 
 // Error response
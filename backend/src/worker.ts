@@ -2,14 +2,19 @@ import { Worker } from 'bullmq';
 import type { Redis } from 'ioredis';
 import { db } from './db/client.js';
 import { actions } from './db/schema.js';
-import { callClaude } from './clients/claude-client.js';
-import { parseClaudeResponse } from './services/response-parser.js';
-import { buildPrompt } from './services/prompt-builder.js';
-import { assertCircuitClosed, recordFailure, recordSuccess } from './services/circuit-breaker.js';
+import { generateSuggestion, suggestionGeneratedMetadata } from './ai/suggestion.js';
+import { saveSuggestionMessage } from './services/thread-messages.js';
+import { recordThreadIntent } from './services/threads.js';
+import { recordUsage } from './services/usage.js';
+import { getAccountPlan } from './services/plan.js';
+import { getEntitlements } from './services/entitlements.js';
+import { getBlockedStatusError } from './services/account-status.js';
+import { resolveSuggestionSettings } from './services/account-settings.js';
 import {
   setSuggestionResult,
   type SuggestionJobResult,
 } from './services/suggestion-results.js';
+import { createPartialMessagePublisher } from './services/suggestion-stream.js';
 import { CLAUDE_QUEUE_NAME, type ClaudeJobPayload } from './queue/claude-queue.js';
 import { redis } from './redis/client.js';
 
@@ -19,13 +24,6 @@ connection.on('error', (error: unknown) => {
   console.error('Worker Redis connection error:', error);
 });
 
-function buildTranscript(messages: ClaudeJobPayload['messages']): string {
-  const transcript = messages
-    .map((message) => `${message.isUser ? 'User' : 'Other'}: ${message.text}`)
-    .join('\n');
-  return transcript.length > 0 ? transcript : 'No messages yet.';
-}
-
 async function storeResult(accountId: string, jobId: string, result: SuggestionJobResult): Promise<void> {
   await setSuggestionResult(accountId, jobId, result);
 }
@@ -36,6 +34,7 @@ const worker = new Worker<ClaudeJobPayload>(
     const { accountId, userId } = job.data;
     const jobId = String(job.id ?? '');
     const startedAt = Date.now();
+    const variantCount = job.data.variantCount ?? 1;
 
     await storeResult(accountId, jobId, {
       jobId,
@@ -46,57 +45,65 @@ const worker = new Worker<ClaudeJobPayload>(
     });
 
     try {
-      await assertCircuitClosed();
-
-      const prompt = buildPrompt({
+      // Settings are re-read here so presets edited while the job was queued still apply.
+      const accountPlan = await getAccountPlan(accountId);
+      const entitlements = getEntitlements(accountPlan);
+      // Jobs queued before a suspension must not run afterwards. The code is stored as the
+      // job error so the extension can show its account-status state.
+      const blocked = getBlockedStatusError(accountPlan.status);
+      if (blocked) {
+        throw new Error(blocked.code);
+      }
+      const settings = await resolveSuggestionSettings(accountId, entitlements, {
         conversationGoal: job.data.conversationGoal,
+        quickQuestion: job.data.quickQuestion,
+        customInstructions: job.data.customInstructions,
+        savedPresetId: job.data.savedPresetId,
+      });
+
+      const generated = await generateSuggestion({
+        conversationGoal: settings.conversationGoal,
         messages: job.data.messages,
+        models: entitlements.models,
         listingTitle: job.data.listingTitle ?? undefined,
         listingPrice: job.data.listingPrice ?? undefined,
-        quickQuestion: job.data.quickQuestion ?? undefined,
+        quickQuestion: settings.quickQuestion,
         persistentContext: job.data.persistentContext ?? undefined,
-        customInstructions: job.data.customInstructions ?? undefined,
-      });
-
-      const transcript = buildTranscript(job.data.messages);
-
-      const claudeResponse = await callClaude({
-        system: prompt.systemInstruction,
-        userMessage: transcript,
-        maxTokens: 300,
-        temperature: 0,
+        globalInstructions: settings.globalInstructions,
+        presetInstructions: settings.presetInstructions,
+        customInstructions: settings.customInstructions,
+        tone: settings.tone,
+        maxLength: settings.maxLength,
+        variantCount,
+        onText: createPartialMessagePublisher(accountId, jobId),
       });
-
-      const suggestion = parseClaudeResponse(
-        claudeResponse.content,
-        job.data.conversationGoal
-      );
-
-      await recordSuccess();
+      const { suggestion, usage } = generated;
 
       await storeResult(accountId, jobId, {
         jobId,
         status: 'completed',
         suggestion,
         error: null,
+        servedBy: { provider: generated.provider, model: generated.model },
         updatedAt: new Date().toISOString(),
       });
 
+      await saveSuggestionMessage(job.data.threadRecordId, suggestion.suggestedMessage);
+      await recordThreadIntent(job.data.threadRecordId, suggestion.intentScore);
+      await recordUsage(accountId, usage.totalTokens);
+
       await db.insert(actions).values({
         account_id: accountId,
         user_id: userId,
         action_type: 'suggestion_generated',
-        metadata: {
-          thread_id: job.data.threadId,
-          message_count: job.data.messages.length,
-          intent_score: suggestion.intentScore,
-          next_action: suggestion.nextAction,
-          tokens_used: claudeResponse.usage.totalTokens,
-          input_tokens: claudeResponse.usage.inputTokens,
-          output_tokens: claudeResponse.usage.outputTokens,
-          duration_ms: Date.now() - startedAt,
-          prompt_length: prompt.systemInstruction.length + transcript.length,
-        },
+        metadata: suggestionGeneratedMetadata(generated, {
+          jobId,
+          threadId: job.data.threadId,
+          conversationGoal: settings.conversationGoal,
+          presetId: settings.presetId,
+          messageCount: job.data.messages.length,
+          durationMs: Date.now() - startedAt,
+        }),
         ip_address: null,
         user_agent: null,
       });
@@ -105,15 +112,15 @@ const worker = new Worker<ClaudeJobPayload>(
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Suggestion generation failed';
 
-      await recordFailure();
-
       await storeResult(accountId, jobId, {
         jobId,
         status: 'failed',
         suggestion: null,
-        error: message === 'CLAUDE_CIRCUIT_OPEN'
-          ? 'Claude temporarily unavailable. Please retry shortly.'
-          : message,
+        error: message === 'PRESET_NOT_FOUND'
+          ? 'The selected preset no longer exists.'
+          : message === 'SUGGESTION_OUTPUT_INVALID'
+            ? 'The assistant returned an unusable reply. Please retry.'
+            : message,
         updatedAt: new Date().toISOString(),
       });
 
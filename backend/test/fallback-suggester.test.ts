@@ -0,0 +1,29 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+
+// The extension bundles these files straight from backend/src, so they may only import each other.
+const SHARED_FILES = ['ai/fallback-suggester.ts', 'services/message-length.ts'];
+
+const srcDir = join(dirname(fileURLToPath(import.meta.url)), '../src');
+const IMPORT_PATTERN = /(?:\bfrom\s*|\bimport\s*\(?\s*)['"]([^'"]+)['"]/g;
+
+function importsOf(file: string): string[] {
+  const source = readFileSync(join(srcDir, file), 'utf8');
+  return [...source.matchAll(IMPORT_PATTERN)].map((match) => match[1] as string);
+}
+
+describe('files shared with the extension', () => {
+  it.each(SHARED_FILES)('%s imports only other shared files', (file) => {
+    const outside = importsOf(file).filter((specifier) => {
+      if (!specifier.startsWith('.')) {
+        return true;
+      }
+      const target = relative(srcDir, resolve(srcDir, dirname(file), specifier)).replace(/\.js$/, '.ts');
+      return !SHARED_FILES.includes(target);
+    });
+
+    expect(outside).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// Circuit state and repair metrics live in Redis; the mock keeps them in memory.
+vi.mock('../src/redis/client.ts', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { redis: new RedisMock() };
+});
+
+const FAKE = { provider: 'fake', model: 'fake-scripted-v1' } as const;
+const scriptDir = mkdtempSync(join(tmpdir(), 'suggestion-test-'));
+let scriptCount = 0;
+
+const messages = [
+  { senderId: 'buyer', text: 'Is the couch still available?', timestamp: 1_700_000_000_000, isUser: false },
+];
+
+function reply(suggestedMessage: string): Record<string, unknown> {
+  return { suggestedMessage, intentScore: 0.7, reasoning: 'Buyer asked about availability.', nextAction: 'answer_question' };
+}
+
+/**
+ * Fresh modules per test: the fake provider is cached per process and reads
+ * FAKE_PROVIDER_SCRIPT when it is first created.
+ */
+async function load(script?: unknown[]) {
+  vi.resetModules();
+
+  if (script) {
+    scriptCount += 1;
+    const path = join(scriptDir, `script-${scriptCount}.json`);
+    writeFileSync(path, JSON.stringify(script));
+    process.env.FAKE_PROVIDER_SCRIPT = path;
+  } else {
+    delete process.env.FAKE_PROVIDER_SCRIPT;
+  }
+
+  const { redis } = await import('../src/redis/client.ts');
+  await redis.flushall();
+  const suggestion = await import('../src/ai/suggestion.js');
+  const circuits = await import('../src/services/circuit-breaker.js');
+  const metrics = await import('../src/services/output-metrics.js');
+
+  return { ...suggestion, ...circuits, ...metrics };
+}
+
+afterAll(() => {
+  delete process.env.FAKE_PROVIDER_SCRIPT;
+});
+
+describe('generateSuggestion model chain', () => {
+  it('skips a model whose circuit is open and records it in fallbackFrom', async () => {
+    const { generateSuggestion, forceCircuit } = await load();
+    await forceCircuit('anthropic', 'claude-test', 'open');
+
+    const generated = await generateSuggestion({
+      conversationGoal: 'sell_item',
+      messages,
+      models: [{ provider: 'anthropic', model: 'claude-test' }, FAKE],
+    });
+
+    expect(generated.provider).toBe('fake');
+    expect(generated.fallbackFrom).toEqual(['anthropic:claude-test']);
+    expect(generated.suggestion.source).toBe('model');
+  });
+
+  it('answers with the rule-based suggester when every circuit is open', async () => {
+    const { generateSuggestion, forceCircuit } = await load();
+    await forceCircuit('fake', FAKE.model, 'open');
+
+    const generated = await generateSuggestion({
+      conversationGoal: 'sell_item',
+      messages,
+      listingTitle: 'couch',
+      models: [FAKE],
+    });
+
+    expect(generated.provider).toBe('fallback');
+    expect(generated.fallbackFrom).toEqual([`fake:${FAKE.model}`]);
+    expect(generated.usage.totalTokens).toBe(0);
+    expect(generated.suggestion.source).toBe('fallback');
+    expect(generated.suggestion.suggestedMessage).toContain('the couch is still available');
+  });
+});
+
+describe('generateSuggestion output repair', () => {
+  it('repairs an invalid reply with one extra call and counts it', async () => {
+    const { generateSuggestion, getOutputRepairStats } = await load([
+      'Sure! Here is a reply: yes it is available',
+      reply('Yes, it is still available!'),
+    ]);
+
+    const generated = await generateSuggestion({ conversationGoal: 'sell_item', messages, models: [FAKE] });
+
+    expect(generated.repaired).toBe(true);
+    expect(generated.suggestion.suggestedMessage).toBe('Yes, it is still available!');
+    expect(await getOutputRepairStats(1)).toEqual([
+      { conversationGoal: 'sell_item', valid: 0, repaired: 1, failed: 0, repairRate: 1 },
+    ]);
+  });
+
+  it('throws SUGGESTION_OUTPUT_INVALID when the repaired reply is still invalid', async () => {
+    const { generateSuggestion, getOutputRepairStats } = await load([
+      { suggestedMessage: '', intentScore: 3 },
+      { suggestedMessage: 'Still no nextAction', intentScore: 0.5, reasoning: 'x' },
+    ]);
+
+    await expect(
+      generateSuggestion({ conversationGoal: 'buy_item', messages, models: [FAKE] })
+    ).rejects.toThrow('SUGGESTION_OUTPUT_INVALID');
+    expect(await getOutputRepairStats(1)).toEqual([
+      { conversationGoal: 'buy_item', valid: 0, repaired: 0, failed: 1, repairRate: 1 },
+    ]);
+  });
+
+  it('repairs a reply with more variants than requested', async () => {
+    const { generateSuggestion } = await load([
+      { variants: [reply('Yes, still available.'), reply('It is!'), reply('Still here.')] },
+      { variants: [reply('Yes, still available.'), reply('It is!')] },
+    ]);
+
+    const generated = await generateSuggestion({ conversationGoal: 'sell_item', messages, models: [FAKE], variantCount: 2 });
+
+    expect(generated.repaired).toBe(true);
+    expect(generated.suggestion.variants).toHaveLength(2);
+  });
+
+  it('does not call the model again for a valid reply', async () => {
+    const { generateSuggestion, getOutputRepairStats } = await load([reply('Yes, still available.')]);
+
+    const generated = await generateSuggestion({ conversationGoal: 'sell_item', messages, models: [FAKE] });
+
+    expect(generated.repaired).toBe(false);
+    expect(await getOutputRepairStats(1)).toEqual([
+      { conversationGoal: 'sell_item', valid: 1, repaired: 0, failed: 0, repairRate: 0 },
+    ]);
+  });
+});
+
+describe('generateSuggestion length fitting', () => {
+  it('trims an over-long reply to whole sentences', async () => {
+    const { generateSuggestion } = await load([
+      reply('Yes, the couch is still available for pickup. I can also deliver it nearby if that helps you.'),
+    ]);
+
+    const generated = await generateSuggestion({ conversationGoal: 'sell_item', messages, models: [FAKE], maxLength: 60 });
+
+    expect(generated.suggestion.suggestedMessage).toBe('Yes, the couch is still available for pickup.');
+    expect(generated.suggestion.variants[0]?.suggestedMessage).toBe('Yes, the couch is still available for pickup.');
+    expect(generated.suggestion.maxLength).toBe(60);
+  });
+
+  it('asks the model to condense when no sentence boundary keeps enough of the reply', async () => {
+    const { generateSuggestion } = await load([
+      reply('Yes it is still available and you can come and pick it up any evening this week after six'),
+      'Still available, pick up any evening after 6.',
+    ]);
+
+    const generated = await generateSuggestion({ conversationGoal: 'sell_item', messages, models: [FAKE], maxLength: 50 });
+
+    expect(generated.suggestion.suggestedMessage).toBe('Still available, pick up any evening after 6.');
+  });
+
+  it('cuts at a word boundary when the condensed reply is still too long', async () => {
+    const { generateSuggestion } = await load([
+      reply('Yes it is still available and you can come and pick it up any evening this week after six'),
+      'It is still available and you can come and pick it up any evening this week',
+    ]);
+
+    const generated = await generateSuggestion({ conversationGoal: 'sell_item', messages, models: [FAKE], maxLength: 40 });
+    const message = generated.suggestion.suggestedMessage;
+
+    expect(message.length).toBeLessThanOrEqual(40);
+    expect(message.endsWith('…')).toBe(true);
+    expect('It is still available and you can come and pick it up').toContain(message.slice(0, -1));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/db/client.ts', () => ({ db: {} }));
+
+const { findStoredOverlapEnd } = await import('../src/services/thread-messages.js');
+
+const buyer = (text: string) => ({ senderType: 'buyer' as const, text });
+const seller = (text: string) => ({ senderType: 'seller' as const, text });
+
+describe('findStoredOverlapEnd', () => {
+  it('treats the whole window as new when nothing is stored', () => {
+    expect(findStoredOverlapEnd([], [buyer('hi'), seller('hello')])).toBe(0);
+  });
+
+  it('skips a re-sent window', () => {
+    const stored = [buyer('hi'), seller('hello')];
+    expect(findStoredOverlapEnd(stored, [buyer('hi'), seller('hello')])).toBe(2);
+  });
+
+  it('keeps a repeated reply after the earlier one scrolled out of the window', () => {
+    const stored = [buyer('is it available?'), seller('ok'), buyer('great, pickup tonight?')];
+    const window = [buyer('great, pickup tonight?'), seller('ok')];
+
+    expect(findStoredOverlapEnd(stored, window)).toBe(1);
+  });
+
+  it('matches the longest run of the stored tail', () => {
+    const stored = [seller('ok'), buyer('thanks'), seller('ok')];
+    const window = [seller('ok'), buyer('thanks'), seller('ok'), seller('ok')];
+
+    expect(findStoredOverlapEnd(stored, window)).toBe(3);
+  });
+
+  it('does not match a message with the same text from the other sender', () => {
+    expect(findStoredOverlapEnd([buyer('ok')], [seller('ok')])).toBe(0);
+  });
+});
@@ -9,6 +9,8 @@
 
 import { logger } from '@/utils/logger.ts';
 import { SuggestionCache, stableSuggestionCacheKey } from './suggestion-cache.ts';
+// Shared with the backend so offline replies match the server's rule-based fallback.
+import { buildFallbackSuggestion } from '../../../backend/src/ai/fallback-suggester.ts';
 
 // Service worker state (reset on worker restart)
 interface ServiceWorkerState {
@@ -22,13 +24,35 @@ const state: ServiceWorkerState = {
 const API_BASE_URL = 'https://api.pons.solutions';
 const UPGRADE_URL = 'https://pons.solutions/#pricing';
 const PROFILE_KEY = 'user_profile_v1';
+// Free plan reply limit, used when the entitlements response predates maxMessageLength
+const DEFAULT_MAX_MESSAGE_LENGTH = 200;
 const suggestionCache = new SuggestionCache<SuggestionResponse>({ ttlMs: 20_000, maxEntries: 100 });
 
+// Returned by the backend for blocked accounts; passed on as the error text so the panel can match them.
+const ACCOUNT_STATUS_CODES = ['ACCOUNT_SUSPENDED', 'ACCOUNT_CLOSED'];
+
+// Refresh tokens are single use, so concurrent callers must share one renewal.
+let pendingSessionRenewal: Promise<string> | null = null;
+
+interface SuggestionVariant {
+  suggestedMessage: string;
+  tone: string;
+  intentScore: number;
+  reasoning: string;
+  nextAction: 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+}
+
 interface SuggestionResponse {
   suggestedMessage: string;
   intentScore: number;
   reasoning: string;
   nextAction: 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+  variants?: SuggestionVariant[];
+  jobId?: string;
+  // `fallback` marks template replies used when no model (or no API) is available
+  source?: 'model' | 'fallback';
+  // Character limit the replies were fitted to
+  maxLength?: number;
 }
 
 interface SuggestionJobResult {
@@ -39,14 +63,89 @@ interface SuggestionJobResult {
   updatedAt: string;
 }
 
+interface SuggestionPartial {
+  jobId: string;
+  delta: string;
+  suggestedMessage: string;
+}
+
+type PartialSuggestionHandler = (partial: SuggestionPartial) => void;
+
+interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+interface UsageStatus {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  tokenBudget: { limit: number; remaining: number; resetAt: number } | null;
+}
+
+type UsageStatusHandler = (usage: UsageStatus) => void;
+
+interface AccountPlanStatus {
+  plan: 'free' | 'pro' | 'enterprise';
+  planStatus: 'trialing' | 'active' | 'grace' | 'expired';
+  trialEndsAt: number | null;
+  planExpiresAt: number | null;
+  graceEndsAt: number | null;
+  autoRenews: boolean;
+}
+
+interface AccountEntitlements {
+  dailyRequests: number;
+  userDailyRequests: number;
+  monthlyTokenBudget: number;
+  maxVariants: number;
+  maxTranscriptMessages: number;
+  maxMessageLength: number;
+  allowedGoals: string[];
+  customInstructions: boolean;
+  settings: boolean;
+  maxPresets: number;
+  models: Array<{ provider: string; model: string }>;
+  seats: number;
+}
+
+interface GoalPresetSummary {
+  id: string;
+  name: string;
+  baseGoal: string;
+  updatedAt: string;
+}
+
+interface SuggestionFeedback {
+  jobId: string;
+  outcome: 'accepted' | 'edited' | 'rejected';
+  variantIndex: number;
+  finalText?: string;
+  fbThreadId?: string;
+}
+
 type BackgroundMessage =
-  | { type: 'LOGIN_SUCCESS'; payload: { accessToken: string; deviceFingerprint?: string } }
+  | { type: 'LOGIN_SUCCESS'; payload: { accessToken: string; refreshToken?: string; deviceFingerprint?: string } }
   | { type: 'REQUEST_SUGGESTION'; payload: unknown }
   | { type: 'CLEAR_SUGGESTION_CACHE' }
+  | { type: 'GET_PRESETS' }
+  | { type: 'GET_RATE_LIMIT' }
+  | { type: 'GET_ACCOUNT' }
+  | { type: 'GET_ENTITLEMENTS' }
+  | { type: 'SUBMIT_FEEDBACK'; payload: SuggestionFeedback }
+  | { type: 'LINK_EMAIL_START'; payload: { email: string } }
+  | { type: 'LINK_EMAIL_VERIFY'; payload: { code: string } }
+  | { type: 'ACCEPT_INVITE'; payload: { token: string } }
   | { type: 'OPEN_UPGRADE_URL' };
 
 type BackgroundResponse =
   | SuggestionResponse
+  | { presets: GoalPresetSummary[] }
+  | { usage: UsageStatus }
+  | { account: AccountPlanStatus }
+  | { entitlements: AccountEntitlements }
+  | { success: true; email: string; merged: boolean }
+  | { success: true; role: string }
   | { success: true }
   | { success: false; error: string }
   | { error: string };
@@ -75,24 +174,80 @@ chrome.runtime.onStartup.addListener(async () => {
 chrome.runtime.onMessage.addListener(
   (
     message: unknown,
-    _sender: chrome.runtime.MessageSender,
+    sender: chrome.runtime.MessageSender,
     sendResponse: (response: BackgroundResponse) => void
   ): boolean => {
     try {
       if (isLoginSuccessMessage(message)) {
-        storeAccessToken(message.payload.accessToken, message.payload.deviceFingerprint)
+        storeSessionTokens(message.payload, message.payload.deviceFingerprint)
           .then(() => sendResponse({ success: true }))
           .catch((error: Error) => sendResponse({ success: false, error: error.message }));
         return true;
       }
 
       if (isRequestSuggestionMessage(message)) {
-        handleSuggestionRequest(message.payload)
+        handleSuggestionRequest(message.payload, sender.tab?.id)
           .then((response) => sendResponse(response))
           .catch((error: Error) => sendResponse({ error: error.message }));
         return true;
       }
 
+      if (isGetPresetsMessage(message)) {
+        fetchPresets()
+          .then((presets) => sendResponse({ presets }))
+          .catch((error: Error) => sendResponse({ error: error.message }));
+        return true;
+      }
+
+      if (isGetRateLimitMessage(message)) {
+        fetchUsageStatus()
+          .then((usage) => sendResponse({ usage }))
+          .catch((error: Error) => sendResponse({ error: error.message }));
+        return true;
+      }
+
+      if (isGetAccountMessage(message)) {
+        fetchAccountPlanStatus()
+          .then((account) => sendResponse({ account }))
+          .catch((error: Error) => sendResponse({ error: error.message }));
+        return true;
+      }
+
+      if (isGetEntitlementsMessage(message)) {
+        fetchAccountEntitlements()
+          .then((entitlements) => sendResponse({ entitlements }))
+          .catch((error: Error) => sendResponse({ error: error.message }));
+        return true;
+      }
+
+      if (isSubmitFeedbackMessage(message)) {
+        submitSuggestionFeedback(message.payload)
+          .then(() => sendResponse({ success: true }))
+          .catch((error: Error) => sendResponse({ success: false, error: error.message }));
+        return true;
+      }
+
+      if (isLinkEmailStartMessage(message)) {
+        startEmailLink(message.payload.email)
+          .then(() => sendResponse({ success: true }))
+          .catch((error: Error) => sendResponse({ success: false, error: error.message }));
+        return true;
+      }
+
+      if (isLinkEmailVerifyMessage(message)) {
+        verifyEmailLink(message.payload.code)
+          .then((result) => sendResponse({ success: true, ...result }))
+          .catch((error: Error) => sendResponse({ success: false, error: error.message }));
+        return true;
+      }
+
+      if (isAcceptInviteMessage(message)) {
+        acceptTeamInvite(message.payload.token)
+          .then((role) => sendResponse({ success: true, role }))
+          .catch((error: Error) => sendResponse({ success: false, error: error.message }));
+        return true;
+      }
+
       if (isClearSuggestionCacheMessage(message)) {
         suggestionCache.clear();
         sendResponse({ success: true });
@@ -129,16 +284,15 @@ chrome.runtime.onMessage.addListener(
 
 async function initializeAuthentication(): Promise<void> {
   try {
-    const deviceFingerprint = await getOrCreateDeviceFingerprint();
-    const accessToken = await loginDevice(deviceFingerprint);
-    await storeAccessToken(accessToken, deviceFingerprint);
-    state.isAuthenticated = true;
+    // Renews the stored session when there is one instead of opening another.
+    await clearAccessToken();
+    await getAccessTokenOrLogin();
   } catch (error) {
     logger.error({ error }, 'Failed to initialize authentication');
   }
 }
 
-async function loginDevice(deviceFingerprint: string): Promise<string> {
+async function loginDevice(deviceFingerprint: string): Promise<SessionTokens> {
   const response = await fetch(`${API_BASE_URL}/auth/login`, {
     method: 'POST',
     headers: {
@@ -152,15 +306,45 @@ async function loginDevice(deviceFingerprint: string): Promise<string> {
     throw new Error(message || `Login failed: ${response.status}`);
   }
 
-  const data = (await response.json()) as { accessToken?: string };
+  const data = (await response.json()) as { accessToken?: string; refreshToken?: string };
   if (!data.accessToken) {
     throw new Error('Login failed: accessToken missing');
   }
 
-  return data.accessToken;
+  return { accessToken: data.accessToken, refreshToken: data.refreshToken };
 }
 
-async function handleSuggestionRequest(payload: unknown): Promise<SuggestionResponse> {
+/**
+ * Exchange the stored refresh token for a new pair. Returns null when the session
+ * is gone (expired, revoked or the token was already used) so callers can log in again.
+ */
+async function refreshSession(refreshToken: string): Promise<SessionTokens | null> {
+  const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `Token refresh failed: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { accessToken?: string; refreshToken?: string };
+  if (!data.accessToken || !data.refreshToken) {
+    throw new Error('Token refresh failed: tokens missing');
+  }
+
+  return { accessToken: data.accessToken, refreshToken: data.refreshToken };
+}
+
+async function handleSuggestionRequest(payload: unknown, tabId?: number): Promise<SuggestionResponse> {
   if (!isRecord(payload)) {
     throw new Error('Invalid suggestion payload');
   }
@@ -177,21 +361,89 @@ async function handleSuggestionRequest(payload: unknown): Promise<SuggestionResp
   };
   const cacheKey = stableSuggestionCacheKey(requestPayload);
 
-  return suggestionCache.getOrCreate(cacheKey, () => requestSuggestionFromApi(requestPayload));
+  const onPartial = typeof tabId === 'number'
+    ? (partial: SuggestionPartial) => forwardPartialSuggestion(tabId, partial)
+    : undefined;
+  const onUsage = typeof tabId === 'number'
+    ? (usage: UsageStatus) => forwardUsageStatus(tabId, usage)
+    : undefined;
+
+  try {
+    return await suggestionCache.getOrCreate(
+      cacheKey,
+      () => requestSuggestionFromApi(requestPayload, onPartial, onUsage)
+    );
+  } catch (error) {
+    if (!(error instanceof Error && error.message === 'API_UNREACHABLE')) {
+      throw error;
+    }
+    // Not cached, so the next request tries the API again.
+    logger.warn({ error }, 'API unreachable, using offline fallback suggestion');
+    return buildOfflineSuggestion(requestPayload);
+  }
+}
+
+/**
+ * Rule-based reply built from the request payload when the API cannot be reached.
+ */
+function buildOfflineSuggestion(payload: Record<string, unknown>): SuggestionResponse {
+  const messages = Array.isArray(payload.messages)
+    ? payload.messages.filter(isRecord).map((message) => ({
+      text: typeof message.text === 'string' ? message.text : '',
+      isUser: message.isUser === true,
+    }))
+    : [];
+
+  return buildFallbackSuggestion({
+    conversationGoal: typeof payload.conversationGoal === 'string' ? payload.conversationGoal : 'general_assistance',
+    messages,
+    listingTitle: typeof payload.listingTitle === 'string' ? payload.listingTitle : undefined,
+    listingPrice: typeof payload.listingPrice === 'string' ? payload.listingPrice : undefined,
+    quickQuestion: typeof payload.quickQuestion === 'string' ? payload.quickQuestion : undefined,
+    variantCount: typeof payload.variantCount === 'number' ? payload.variantCount : undefined,
+  });
+}
+
+/**
+ * Push streamed draft text to the requesting tab so the panel can render it progressively.
+ */
+function forwardPartialSuggestion(tabId: number, partial: SuggestionPartial): void {
+  chrome.tabs.sendMessage(tabId, {
+    type: 'SUGGESTION_PARTIAL',
+    payload: partial,
+    requestId: partial.jobId,
+    timestamp: Date.now(),
+  }).catch(() => undefined);
+}
+
+/**
+ * Push the latest quota headers to the requesting tab so the panel meter stays current.
+ */
+function forwardUsageStatus(tabId: number, usage: UsageStatus): void {
+  chrome.tabs.sendMessage(tabId, {
+    type: 'RATE_LIMIT_UPDATE',
+    payload: usage,
+    requestId: `usage-${Date.now()}`,
+    timestamp: Date.now(),
+  }).catch(() => undefined);
 }
 
-async function requestSuggestionFromApi(payload: Record<string, unknown>): Promise<SuggestionResponse> {
+async function requestSuggestionFromApi(
+  payload: Record<string, unknown>,
+  onPartial?: PartialSuggestionHandler,
+  onUsage?: UsageStatusHandler
+): Promise<SuggestionResponse> {
   let accessToken = await getAccessTokenOrLogin();
   let jobResult: SuggestionJobResult;
 
   try {
-    jobResult = await createSuggestionJob(accessToken, payload);
+    jobResult = await createSuggestionJob(accessToken, payload, onPartial, onUsage);
   } catch (error) {
     if (error instanceof Error && error.message === 'AUTH_EXPIRED') {
       await clearAccessToken();
       state.isAuthenticated = false;
       accessToken = await getAccessTokenOrLogin();
-      jobResult = await createSuggestionJob(accessToken, payload);
+      jobResult = await createSuggestionJob(accessToken, payload, onPartial, onUsage);
     } else {
       throw error;
     }
@@ -202,7 +454,7 @@ async function requestSuggestionFromApi(payload: Record<string, unknown>): Promi
   }
 
   if (jobResult.status === 'completed' && jobResult.suggestion) {
-    return jobResult.suggestion;
+    return { ...jobResult.suggestion, jobId: jobResult.jobId };
   }
 
   try {
@@ -248,44 +500,376 @@ async function getAccessTokenOrLogin(): Promise<string> {
     return existingToken;
   }
 
+  if (!pendingSessionRenewal) {
+    pendingSessionRenewal = renewSession().finally(() => {
+      pendingSessionRenewal = null;
+    });
+  }
+
+  return pendingSessionRenewal;
+}
+
+async function renewSession(): Promise<string> {
+  const refreshToken = await getRefreshToken();
+  if (refreshToken) {
+    const refreshed = await refreshSession(refreshToken);
+    if (refreshed) {
+      await storeSessionTokens(refreshed);
+      state.isAuthenticated = true;
+      return refreshed.accessToken;
+    }
+    await clearRefreshToken();
+  }
+
   const deviceFingerprint = await getOrCreateDeviceFingerprint();
-  const accessToken = await loginDevice(deviceFingerprint);
-  await storeAccessToken(accessToken, deviceFingerprint);
+  const tokens = await loginDevice(deviceFingerprint);
+  await storeSessionTokens(tokens, deviceFingerprint);
   state.isAuthenticated = true;
-  return accessToken;
+  return tokens.accessToken;
 }
 
 async function extractErrorMessage(response: Response): Promise<string | null> {
   try {
-    const data = (await response.json()) as { message?: string; error?: string };
+    const data = (await response.json()) as { message?: string; error?: string; code?: string };
+    if (data.code && ACCOUNT_STATUS_CODES.includes(data.code)) {
+      return data.code;
+    }
     return data.message ?? data.error ?? null;
   } catch {
     return null;
   }
 }
 
-async function createSuggestionJob(
-  accessToken: string,
-  payload: Record<string, unknown>
-): Promise<SuggestionJobResult> {
-  const response = await fetch(`${API_BASE_URL}/suggest`, {
-    method: 'POST',
+/**
+ * Authenticated request to the backend; re-logs in once if the access token expired.
+ */
+async function fetchWithAuth(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = (accessToken: string): Promise<Response> => fetch(`${API_BASE_URL}${path}`, {
+    ...init,
     headers: {
-      'Content-Type': 'application/json',
+      ...(init.headers as Record<string, string> | undefined),
       Authorization: `Bearer ${accessToken}`,
     },
-    body: JSON.stringify(payload),
   });
 
+  const response = await send(await getAccessTokenOrLogin());
+  if (response.status !== 401) {
+    return response;
+  }
+
+  await clearAccessToken();
+  state.isAuthenticated = false;
+  return send(await getAccessTokenOrLogin());
+}
+
+async function fetchPresets(): Promise<GoalPresetSummary[]> {
+  const response = await fetchWithAuth('/settings/presets', { method: 'GET' });
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as unknown;
+  if (!isRecord(data) || !Array.isArray(data.presets)) {
+    throw new Error('Invalid presets response');
+  }
+
+  return data.presets.filter(isGoalPresetSummary).map((preset) => ({
+    id: preset.id,
+    name: preset.name,
+    baseGoal: preset.baseGoal,
+    updatedAt: preset.updatedAt,
+  }));
+}
+
+/**
+ * Report what happened to a suggestion (sent as-is, sent after edits, or dismissed).
+ */
+async function submitSuggestionFeedback(feedback: SuggestionFeedback): Promise<void> {
+  const response = await fetchWithAuth(`/suggest/${encodeURIComponent(feedback.jobId)}/feedback`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      outcome: feedback.outcome,
+      variantIndex: feedback.variantIndex,
+      finalText: feedback.finalText,
+      fbThreadId: feedback.fbThreadId,
+    }),
+  });
+
+  // 409 means feedback for this job was already recorded, e.g. a cached suggestion reused.
+  if (!response.ok && response.status !== 409) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+}
+
+async function startEmailLink(email: string): Promise<void> {
+  const response = await fetchWithAuth('/auth/link-email', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email }),
+  });
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+}
+
+/**
+ * Confirm the emailed code. When this device joins another account the backend
+ * ends the old session and returns tokens for the new one.
+ */
+async function verifyEmailLink(code: string): Promise<{ email: string; merged: boolean }> {
+  const response = await fetchWithAuth('/auth/link-email/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+  });
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as {
+    email?: string;
+    mergedAccountId?: string | null;
+    accessToken?: string;
+    refreshToken?: string;
+  };
+
+  const merged = Boolean(data.mergedAccountId);
+  if (merged && data.accessToken) {
+    await storeSessionTokens({ accessToken: data.accessToken, refreshToken: data.refreshToken });
+    suggestionCache.clear();
+  }
+
+  return { email: data.email ?? '', merged };
+}
+
+/**
+ * Join the inviting account. The backend moves this device over and returns tokens
+ * for the new account, since the old session ends with the move.
+ */
+async function acceptTeamInvite(token: string): Promise<string> {
+  const response = await fetchWithAuth('/team/invites/accept', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { role?: string; accessToken?: string; refreshToken?: string };
+  if (data.accessToken) {
+    await storeSessionTokens({ accessToken: data.accessToken, refreshToken: data.refreshToken });
+    suggestionCache.clear();
+  }
+
+  return data.role ?? 'member';
+}
+
+/**
+ * Current daily request and monthly token usage from GET /usage.
+ */
+async function fetchUsageStatus(): Promise<UsageStatus> {
+  const response = await fetchWithAuth('/usage', { method: 'GET' });
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as unknown;
+  if (!isRecord(data) || !isRecord(data.usage) || !isRecord(data.usage.day) || !isRecord(data.usage.period)) {
+    throw new Error('Invalid usage response');
+  }
+
+  const { day, period } = data.usage;
+  const accountRequests = isRecord(day.requests) ? day.requests : {};
+  const tokens = isRecord(period.tokens) ? period.tokens : {};
+
+  // Show whichever daily limit runs out first: the account pool or this user's share.
+  const userRequests = isRecord(day.userRequests) ? day.userRequests : null;
+  const requests = userRequests && toFiniteNumber(userRequests.remaining) < toFiniteNumber(accountRequests.remaining)
+    ? userRequests
+    : accountRequests;
+
+  return {
+    limit: toFiniteNumber(requests.limit),
+    remaining: toFiniteNumber(requests.remaining),
+    resetAt: Date.parse(String(day.resetsAt)) || 0,
+    tokenBudget: typeof tokens.limit === 'number'
+      ? {
+        limit: tokens.limit,
+        remaining: toFiniteNumber(tokens.remaining),
+        resetAt: Date.parse(String(period.resetsAt)) || 0,
+      }
+      : null,
+  };
+}
+
+/**
+ * The account's plan and where it is in its trial/expiry lifecycle, from GET /account.
+ */
+async function fetchAccountPlanStatus(): Promise<AccountPlanStatus> {
+  const response = await fetchWithAuth('/account', { method: 'GET' });
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as unknown;
+  const account = isRecord(data) && isRecord(data.account) ? data.account : null;
+  if (!account ||
+    (account.plan !== 'free' && account.plan !== 'pro' && account.plan !== 'enterprise') ||
+    (account.planStatus !== 'trialing' && account.planStatus !== 'active' &&
+      account.planStatus !== 'grace' && account.planStatus !== 'expired')) {
+    throw new Error('Invalid account response');
+  }
+
+  return {
+    plan: account.plan,
+    planStatus: account.planStatus,
+    trialEndsAt: toTimestamp(account.trialEndsAt),
+    planExpiresAt: toTimestamp(account.planExpiresAt),
+    graceEndsAt: toTimestamp(account.graceEndsAt),
+    autoRenews: account.autoRenews === true,
+  };
+}
+
+/**
+ * What the account's plan unlocks, from GET /account/entitlements.
+ */
+async function fetchAccountEntitlements(): Promise<AccountEntitlements> {
+  const response = await fetchWithAuth('/account/entitlements', { method: 'GET' });
+
+  if (!response.ok) {
+    const message = await extractErrorMessage(response);
+    throw new Error(message || `API error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as unknown;
+  const entitlements = isRecord(data) && isRecord(data.entitlements) ? data.entitlements : null;
+  if (!entitlements ||
+    typeof entitlements.maxVariants !== 'number' ||
+    typeof entitlements.maxPresets !== 'number' ||
+    !Array.isArray(entitlements.allowedGoals)) {
+    throw new Error('Invalid entitlements response');
+  }
+
+  return {
+    dailyRequests: toCount(entitlements.dailyRequests),
+    userDailyRequests: toCount(entitlements.userDailyRequests),
+    monthlyTokenBudget: toCount(entitlements.monthlyTokenBudget),
+    maxVariants: entitlements.maxVariants,
+    maxTranscriptMessages: toCount(entitlements.maxTranscriptMessages),
+    maxMessageLength: toCount(entitlements.maxMessageLength) || DEFAULT_MAX_MESSAGE_LENGTH,
+    allowedGoals: entitlements.allowedGoals.filter((goal): goal is string => typeof goal === 'string'),
+    customInstructions: entitlements.customInstructions === true,
+    settings: entitlements.settings === true,
+    maxPresets: entitlements.maxPresets,
+    models: Array.isArray(entitlements.models)
+      ? entitlements.models.filter((target): target is { provider: string; model: string } =>
+        isRecord(target) && typeof target.provider === 'string' && typeof target.model === 'string')
+      : [],
+    seats: toCount(entitlements.seats),
+  };
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function toTimestamp(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Read the X-RateLimit-* and X-TokenBudget-* headers set on POST /suggest.
+ */
+function readUsageHeaders(headers: Headers): UsageStatus | null {
+  const limit = headers.get('X-RateLimit-Limit');
+  const remaining = headers.get('X-RateLimit-Remaining');
+  if (limit === null || remaining === null) {
+    return null;
+  }
+
+  const tokenLimit = headers.get('X-TokenBudget-Limit');
+  const tokenRemaining = headers.get('X-TokenBudget-Remaining');
+
+  return {
+    limit: toFiniteNumber(limit),
+    remaining: toFiniteNumber(remaining),
+    resetAt: toFiniteNumber(headers.get('X-RateLimit-Reset')),
+    tokenBudget: tokenLimit !== null && tokenRemaining !== null
+      ? {
+        limit: toFiniteNumber(tokenLimit),
+        remaining: toFiniteNumber(tokenRemaining),
+        resetAt: toFiniteNumber(headers.get('X-TokenBudget-Reset')),
+      }
+      : null,
+  };
+}
+
+function toFiniteNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+async function createSuggestionJob(
+  accessToken: string,
+  payload: Record<string, unknown>,
+  onPartial?: PartialSuggestionHandler,
+  onUsage?: UsageStatusHandler
+): Promise<SuggestionJobResult> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/suggest`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream, application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    // fetch only rejects on network failures (offline, DNS, refused connection)
+    throw new Error('API_UNREACHABLE');
+  }
+
   if (response.status === 401) {
     throw new Error('AUTH_EXPIRED');
   }
 
+  // Gateway errors mean the API is down rather than rejecting the request.
+  if (response.status === 502 || response.status === 503 || response.status === 504) {
+    throw new Error('API_UNREACHABLE');
+  }
+
+  const usage = readUsageHeaders(response.headers);
+  if (usage) {
+    onUsage?.(usage);
+  }
+
   if (!response.ok) {
     const message = await extractErrorMessage(response);
     throw new Error(message || `API error: ${response.status}`);
   }
 
+  if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return readSuggestionStream(response, onPartial);
+  }
+
   const data = (await response.json()) as unknown;
   if (!isSuggestionJobResult(data)) {
     throw new Error('Invalid suggestion job response');
@@ -294,6 +878,87 @@ async function createSuggestionJob(
   return data;
 }
 
+/**
+ * Consume the Server-Sent Events stream returned by POST /suggest.
+ * Resolves with the last status seen; if the stream ends before a terminal
+ * status, the caller falls back to polling with that job id.
+ */
+async function readSuggestionStream(
+  response: Response,
+  onPartial?: PartialSuggestionHandler
+): Promise<SuggestionJobResult> {
+  if (!response.body) {
+    throw new Error('Suggestion stream unavailable');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lastResult: SuggestionJobResult | null = null;
+
+  try {
+    let chunk = await reader.read();
+    while (!chunk.done) {
+      buffer += decoder.decode(chunk.value, { stream: true });
+      let boundary = buffer.indexOf('\n\n');
+
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        const event = parseServerSentEvent(rawEvent);
+        if (!event) continue;
+
+        if (event.name === 'partial' && isSuggestionPartial(event.data)) {
+          onPartial?.(event.data);
+          continue;
+        }
+
+        if (event.name === 'status' && isSuggestionJobResult(event.data)) {
+          lastResult = event.data;
+          if (lastResult.status === 'completed' || lastResult.status === 'failed') {
+            return lastResult;
+          }
+        }
+      }
+
+      chunk = await reader.read();
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  if (!lastResult) {
+    throw new Error('Suggestion stream ended without a job status');
+  }
+
+  return lastResult;
+}
+
+function parseServerSentEvent(rawEvent: string): { name: string; data: unknown } | null {
+  let name = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split('\n')) {
+    if (line.startsWith('event:')) {
+      name = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  try {
+    return { name, data: JSON.parse(dataLines.join('\n')) as unknown };
+  } catch {
+    return null;
+  }
+}
+
 async function fetchSuggestionStatus(
   accessToken: string,
   jobId: string
@@ -336,7 +1001,7 @@ async function pollSuggestionResult(
 
     if (result.status === 'completed') {
       if (result.suggestion) {
-        return result.suggestion;
+        return { ...result.suggestion, jobId };
       }
       throw new Error('Suggestion missing from completed job');
     }
@@ -358,8 +1023,16 @@ async function getAccessToken(): Promise<string | null> {
   return typeof result.access_token === 'string' ? result.access_token : null;
 }
 
-async function storeAccessToken(accessToken: string, deviceFingerprint?: string): Promise<void> {
-  const payload: Record<string, string> = { access_token: accessToken };
+async function getRefreshToken(): Promise<string | null> {
+  const result = await chrome.storage.local.get(['refresh_token']);
+  return typeof result.refresh_token === 'string' ? result.refresh_token : null;
+}
+
+async function storeSessionTokens(tokens: SessionTokens, deviceFingerprint?: string): Promise<void> {
+  const payload: Record<string, string> = { access_token: tokens.accessToken };
+  if (tokens.refreshToken) {
+    payload.refresh_token = tokens.refreshToken;
+  }
   if (deviceFingerprint) {
     payload.device_fingerprint = deviceFingerprint;
   }
@@ -370,6 +1043,10 @@ async function clearAccessToken(): Promise<void> {
   await chrome.storage.local.remove(['access_token']);
 }
 
+async function clearRefreshToken(): Promise<void> {
+  await chrome.storage.local.remove(['refresh_token']);
+}
+
 async function getOrCreateDeviceFingerprint(): Promise<string> {
   const result = await chrome.storage.local.get(['device_fingerprint']);
   const existing = result.device_fingerprint;
@@ -391,6 +1068,21 @@ function isSuggestionResponse(value: unknown): value is SuggestionResponse {
     typeof value.nextAction === 'string';
 }
 
+function isGoalPresetSummary(value: unknown): value is GoalPresetSummary {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.baseGoal === 'string' &&
+    typeof value.updatedAt === 'string';
+}
+
+function isSuggestionPartial(value: unknown): value is SuggestionPartial {
+  return isRecord(value) &&
+    typeof value.jobId === 'string' &&
+    typeof value.delta === 'string' &&
+    typeof value.suggestedMessage === 'string';
+}
+
 function isSuggestionJobResult(value: unknown): value is SuggestionJobResult {
   return isRecord(value) &&
     typeof value.jobId === 'string' &&
@@ -407,7 +1099,8 @@ function isLoginSuccessMessage(message: unknown): message is Extract<BackgroundM
   return isRecord(message) &&
     message.type === 'LOGIN_SUCCESS' &&
     isRecord(message.payload) &&
-    typeof message.payload.accessToken === 'string';
+    typeof message.payload.accessToken === 'string' &&
+    (message.payload.refreshToken === undefined || typeof message.payload.refreshToken === 'string');
 }
 
 function isRequestSuggestionMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'REQUEST_SUGGESTION' }> {
@@ -420,6 +1113,52 @@ function isClearSuggestionCacheMessage(message: unknown): message is Extract<Bac
   return isRecord(message) && message.type === 'CLEAR_SUGGESTION_CACHE';
 }
 
+function isGetPresetsMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'GET_PRESETS' }> {
+  return isRecord(message) && message.type === 'GET_PRESETS';
+}
+
+function isGetRateLimitMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'GET_RATE_LIMIT' }> {
+  return isRecord(message) && message.type === 'GET_RATE_LIMIT';
+}
+
+function isGetAccountMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'GET_ACCOUNT' }> {
+  return isRecord(message) && message.type === 'GET_ACCOUNT';
+}
+
+function isGetEntitlementsMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'GET_ENTITLEMENTS' }> {
+  return isRecord(message) && message.type === 'GET_ENTITLEMENTS';
+}
+
+function isSubmitFeedbackMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'SUBMIT_FEEDBACK' }> {
+  return isRecord(message) &&
+    message.type === 'SUBMIT_FEEDBACK' &&
+    isRecord(message.payload) &&
+    typeof message.payload.jobId === 'string' &&
+    (message.payload.outcome === 'accepted' || message.payload.outcome === 'edited' || message.payload.outcome === 'rejected') &&
+    typeof message.payload.variantIndex === 'number';
+}
+
+function isLinkEmailStartMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'LINK_EMAIL_START' }> {
+  return isRecord(message) &&
+    message.type === 'LINK_EMAIL_START' &&
+    isRecord(message.payload) &&
+    typeof message.payload.email === 'string';
+}
+
+function isLinkEmailVerifyMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'LINK_EMAIL_VERIFY' }> {
+  return isRecord(message) &&
+    message.type === 'LINK_EMAIL_VERIFY' &&
+    isRecord(message.payload) &&
+    typeof message.payload.code === 'string';
+}
+
+function isAcceptInviteMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'ACCEPT_INVITE' }> {
+  return isRecord(message) &&
+    message.type === 'ACCEPT_INVITE' &&
+    isRecord(message.payload) &&
+    typeof message.payload.token === 'string';
+}
+
 function isOpenUpgradeMessage(message: unknown): message is Extract<BackgroundMessage, { type: 'OPEN_UPGRADE_URL' }> {
   return isRecord(message) && message.type === 'OPEN_UPGRADE_URL';
 }
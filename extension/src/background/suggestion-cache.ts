@@ -92,6 +92,7 @@ export function stableSuggestionCacheKey(payload: Record<string, unknown>): stri
     quickQuestion: asString(payload.quickQuestion),
     customInstructions: asString(payload.customInstructions),
     savedPresetId: asString(payload.savedPresetId),
+    variantCount: typeof payload.variantCount === 'number' ? payload.variantCount : null,
     messageCount: messages.length,
     lastMessageTimestamp,
   });
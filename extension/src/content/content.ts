@@ -12,7 +12,16 @@
  * ✓ Graceful cleanup on navigation
  */
 
-import type { ThreadContext, ExtensionMessage, ExtensionMessageResponse } from '@/types/index.ts';
+import type {
+  ThreadContext,
+  ExtensionMessage,
+  ExtensionMessageResponse,
+  ErrorCode,
+  FeedbackOutcome,
+  PlanEntitlements,
+  PlanInfo,
+  RateLimitStatus,
+} from '@/types/index.ts';
 import { logger } from '@/utils/content-logger.ts';
 import { FacebookMarketplaceAdapter } from './facebook-adapter.ts';
 import { DOMWatcher } from './dom-watcher.ts';
@@ -24,6 +33,16 @@ interface SuggestionResponse {
   intentScore: number;
   reasoning: string;
   nextAction: 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+  variants?: Array<{
+    suggestedMessage: string;
+    tone: string;
+    intentScore: number;
+    reasoning: string;
+    nextAction: 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+  }>;
+  jobId?: string;
+  source?: 'model' | 'fallback';
+  maxLength?: number;
 }
 
 interface SuggestionRequest {
@@ -36,6 +55,7 @@ interface SuggestionRequest {
   quickQuestion?: string;
   customInstructions?: string;
   savedPresetId?: string;
+  variantCount?: number;
   messages: Array<{
     senderId: string;
     text: string;
@@ -55,8 +75,17 @@ interface SuggestionControls {
   quickQuestion?: string;
   customInstructions?: string;
   savedPresetId?: string;
+  variantCount?: number;
 }
 
+// A draft inserted into the composer, waiting for the user to send it
+interface PendingDraft {
+  jobId: string;
+  variantIndex: number;
+  text: string;
+  threadId: string | null;
+  stopWatching: () => void;
+}
 
 // Global state flag to prevent multiple initializations
 let isInitialized = false;
@@ -65,6 +94,7 @@ let isInitialized = false;
 let adapter: FacebookMarketplaceAdapter;
 let watcher: DOMWatcher;
 let injector: UIInjector;
+let pendingDraft: PendingDraft | null = null;
 
 /**
  * Main initialization function
@@ -130,6 +160,11 @@ function handleThreadDetected(context: ThreadContext): void {
       hasListing: context.listingData !== null
     }, 'Thread detected, injecting UI');
 
+    // A draft inserted in another thread must not be matched against sends in this one
+    if (pendingDraft && pendingDraft.threadId !== context.threadId) {
+      clearPendingDraft();
+    }
+
     // Update store with current thread
     useStore.getState().setCurrentThread(context);
 
@@ -165,7 +200,7 @@ function handleWindowMessage(event: MessageEvent): void {
   // Check for our custom message types
   if (event.data.type === 'CLAUDE_USE_DRAFT') {
     try {
-      const { message } = event.data.payload;
+      const { message, jobId, variantIndex } = event.data.payload;
       
       logger.info({ messageLength: message.length }, 'Inserting draft message');
       adapter.insertDraftMessage(message);
@@ -173,6 +208,10 @@ function handleWindowMessage(event: MessageEvent): void {
       // Highlight send button
       highlightSendButton();
 
+      if (typeof jobId === 'string') {
+        trackDraftSend(jobId, typeof variantIndex === 'number' ? variantIndex : 0, message);
+      }
+
     } catch (error) {
       logger.error({ error }, 'Failed to insert draft message');
     }
@@ -201,6 +240,30 @@ function handleWindowMessage(event: MessageEvent): void {
     void requestSuggestion(threadContext, controls);
   }
 
+  if (event.data.type === 'SUGGESTION_FEEDBACK') {
+    const feedback = event.data.payload as unknown;
+    if (isRecord(feedback) && typeof feedback.jobId === 'string' && feedback.outcome === 'rejected') {
+      submitFeedback({
+        jobId: feedback.jobId,
+        outcome: 'rejected',
+        variantIndex: typeof feedback.variantIndex === 'number' ? feedback.variantIndex : 0,
+      });
+    }
+    return;
+  }
+
+  if (event.data.type === 'REQUEST_PRESETS_FROM_UI') {
+    void requestPresets();
+    return;
+  }
+
+  if (event.data.type === 'REQUEST_USAGE_FROM_UI') {
+    void requestUsage();
+    void requestPlanInfo();
+    void requestEntitlements();
+    return;
+  }
+
   if (event.data.type === 'OPEN_UPGRADE_URL') {
     chrome.runtime.sendMessage({ type: 'OPEN_UPGRADE_URL' }).catch((error) => {
       logger.error({ error }, 'Failed to open upgrade URL');
@@ -228,6 +291,7 @@ async function requestSuggestion(
     }
 
     if ('error' in response && typeof response.error === 'string') {
+      trackAccountStatus(response.error);
       window.postMessage({
         type: 'SUGGESTION_ERROR',
         payload: { error: response.error },
@@ -243,6 +307,7 @@ async function requestSuggestion(
       return;
     }
 
+    trackAccountStatus(null);
     window.postMessage({
       type: 'SUGGESTION_READY',
       payload: response,
@@ -250,6 +315,7 @@ async function requestSuggestion(
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to request suggestion';
     logger.error({ error }, 'Failed to request suggestion');
+    trackAccountStatus(message);
     window.postMessage({
       type: 'SUGGESTION_ERROR',
       payload: { error: message },
@@ -257,6 +323,253 @@ async function requestSuggestion(
   }
 }
 
+async function requestPresets(): Promise<void> {
+  try {
+    const response = (await chrome.runtime.sendMessage({ type: 'GET_PRESETS' })) as unknown;
+
+    if (isRecord(response) && Array.isArray(response.presets)) {
+      window.postMessage({
+        type: 'PRESETS_READY',
+        payload: { presets: response.presets },
+      }, '*');
+      return;
+    }
+
+    const error = isRecord(response) && typeof response.error === 'string'
+      ? response.error
+      : 'Invalid response from background';
+    trackAccountStatus(error);
+    window.postMessage({ type: 'PRESETS_ERROR', payload: { error } }, '*');
+  } catch (error) {
+    logger.error({ error }, 'Failed to load presets');
+    window.postMessage({
+      type: 'PRESETS_ERROR',
+      payload: { error: error instanceof Error ? error.message : 'Failed to load presets' },
+    }, '*');
+  }
+}
+
+async function requestUsage(): Promise<void> {
+  try {
+    const response = (await chrome.runtime.sendMessage({ type: 'GET_RATE_LIMIT' })) as unknown;
+    const status = isRecord(response) ? toRateLimitStatus(response.usage) : null;
+
+    if (status) {
+      trackAccountStatus(null);
+      useStore.getState().setRateLimitStatus(status);
+    } else {
+      if (isRecord(response) && typeof response.error === 'string') {
+        trackAccountStatus(response.error);
+      }
+      logger.warn({ response }, 'Usage response missing');
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load usage');
+  }
+}
+
+const ACCOUNT_STATUS_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  ACCOUNT_SUSPENDED: 'This account has been suspended. Contact support to restore access.',
+  ACCOUNT_CLOSED: 'This account has been closed.',
+};
+
+/**
+ * Keep a suspended or closed account in the store so the panel can show it instead
+ * of a generic error. Pass null after a successful request to clear it again.
+ */
+function trackAccountStatus(error: string | null): void {
+  const store = useStore.getState();
+  const statusMessage = error ? ACCOUNT_STATUS_MESSAGES[error as ErrorCode] : undefined;
+
+  if (error && statusMessage) {
+    store.setError({ code: error as ErrorCode, message: statusMessage, details: null, timestamp: Date.now() });
+  } else if (!error && store.error && ACCOUNT_STATUS_MESSAGES[store.error.code]) {
+    store.clearError();
+  }
+}
+
+async function requestPlanInfo(): Promise<void> {
+  try {
+    const response = (await chrome.runtime.sendMessage({ type: 'GET_ACCOUNT' })) as unknown;
+
+    const planInfo = isRecord(response) ? toPlanInfo(response.account) : null;
+    if (planInfo) {
+      useStore.getState().setPlanInfo(planInfo);
+    } else {
+      logger.warn({ response }, 'Account response missing');
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load account plan');
+  }
+}
+
+async function requestEntitlements(): Promise<void> {
+  try {
+    const response = (await chrome.runtime.sendMessage({ type: 'GET_ENTITLEMENTS' })) as unknown;
+
+    const entitlements = isRecord(response) ? toPlanEntitlements(response.entitlements) : null;
+    if (entitlements) {
+      useStore.getState().setEntitlements(entitlements);
+    } else {
+      logger.warn({ response }, 'Entitlements response missing');
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Failed to load entitlements');
+  }
+}
+
+function toRateLimitStatus(value: unknown): RateLimitStatus | null {
+  if (!isRecord(value) ||
+    typeof value.limit !== 'number' ||
+    typeof value.remaining !== 'number' ||
+    typeof value.resetAt !== 'number') {
+    return null;
+  }
+
+  const tokenBudget = isRecord(value.tokenBudget) &&
+    typeof value.tokenBudget.limit === 'number' &&
+    typeof value.tokenBudget.remaining === 'number' &&
+    typeof value.tokenBudget.resetAt === 'number'
+    ? {
+      limit: value.tokenBudget.limit,
+      remaining: value.tokenBudget.remaining,
+      resetAt: value.tokenBudget.resetAt,
+    }
+    : null;
+
+  return {
+    accountId: null,
+    resource: 'suggestions',
+    limit: value.limit,
+    remaining: value.remaining,
+    resetAt: value.resetAt,
+    tokenBudget,
+  };
+}
+
+const PLAN_TIERS: ReadonlyArray<PlanInfo['plan']> = ['free', 'pro', 'enterprise'];
+const PLAN_STATUSES: ReadonlyArray<PlanInfo['planStatus']> = ['trialing', 'active', 'grace', 'expired'];
+
+function toPlanInfo(value: unknown): PlanInfo | null {
+  if (!isRecord(value) ||
+    !PLAN_TIERS.includes(value.plan as PlanInfo['plan']) ||
+    !PLAN_STATUSES.includes(value.planStatus as PlanInfo['planStatus']) ||
+    !isTimestampOrNull(value.trialEndsAt) ||
+    !isTimestampOrNull(value.planExpiresAt) ||
+    !isTimestampOrNull(value.graceEndsAt) ||
+    typeof value.autoRenews !== 'boolean') {
+    return null;
+  }
+
+  return {
+    plan: value.plan as PlanInfo['plan'],
+    planStatus: value.planStatus as PlanInfo['planStatus'],
+    trialEndsAt: value.trialEndsAt,
+    planExpiresAt: value.planExpiresAt,
+    graceEndsAt: value.graceEndsAt,
+    autoRenews: value.autoRenews,
+  };
+}
+
+function toPlanEntitlements(value: unknown): PlanEntitlements | null {
+  if (!isRecord(value) ||
+    typeof value.dailyRequests !== 'number' ||
+    typeof value.userDailyRequests !== 'number' ||
+    typeof value.monthlyTokenBudget !== 'number' ||
+    typeof value.maxVariants !== 'number' ||
+    typeof value.maxTranscriptMessages !== 'number' ||
+    typeof value.maxMessageLength !== 'number' ||
+    !Array.isArray(value.allowedGoals) ||
+    !value.allowedGoals.every((goal) => typeof goal === 'string') ||
+    typeof value.customInstructions !== 'boolean' ||
+    typeof value.settings !== 'boolean' ||
+    typeof value.maxPresets !== 'number' ||
+    !Array.isArray(value.models) ||
+    typeof value.seats !== 'number') {
+    return null;
+  }
+
+  const models = value.models.filter(
+    (model): model is { provider: string; model: string } =>
+      isRecord(model) && typeof model.provider === 'string' && typeof model.model === 'string'
+  );
+
+  return {
+    dailyRequests: value.dailyRequests,
+    userDailyRequests: value.userDailyRequests,
+    monthlyTokenBudget: value.monthlyTokenBudget,
+    maxVariants: value.maxVariants,
+    maxTranscriptMessages: value.maxTranscriptMessages,
+    maxMessageLength: value.maxMessageLength,
+    allowedGoals: value.allowedGoals as string[],
+    customInstructions: value.customInstructions,
+    settings: value.settings,
+    maxPresets: value.maxPresets,
+    models: models.map(({ provider, model }) => ({ provider, model })),
+    seats: value.seats,
+  };
+}
+
+function isTimestampOrNull(value: unknown): value is number | null {
+  return value === null || typeof value === 'number';
+}
+
+/**
+ * Wait for the user to send the inserted draft, then report whether it went out
+ * unchanged (accepted) or was edited first.
+ */
+function trackDraftSend(jobId: string, variantIndex: number, text: string): void {
+  clearPendingDraft();
+
+  const threadId = useStore.getState().currentThread?.threadId ?? null;
+  const stopWatching = adapter.watchComposerSend((sentText) => {
+    const draft = pendingDraft;
+    if (!draft) {
+      return;
+    }
+
+    clearPendingDraft();
+    const edited = normalizeWhitespace(sentText) !== normalizeWhitespace(draft.text);
+    submitFeedback({
+      jobId: draft.jobId,
+      outcome: edited ? 'edited' : 'accepted',
+      variantIndex: draft.variantIndex,
+      finalText: sentText,
+      fbThreadId: draft.threadId ?? undefined,
+    });
+  });
+
+  pendingDraft = { jobId, variantIndex, text, threadId, stopWatching };
+}
+
+function clearPendingDraft(): void {
+  pendingDraft?.stopWatching();
+  pendingDraft = null;
+}
+
+function submitFeedback(feedback: {
+  jobId: string;
+  outcome: FeedbackOutcome;
+  variantIndex: number;
+  finalText?: string;
+  fbThreadId?: string;
+}): void {
+  const fbThreadId = feedback.fbThreadId ?? useStore.getState().currentThread?.threadId;
+
+  chrome.runtime.sendMessage({
+    type: 'SUBMIT_FEEDBACK',
+    payload: { ...feedback, fbThreadId },
+  }).catch((error) => {
+    logger.warn({ error, outcome: feedback.outcome }, 'Failed to submit suggestion feedback');
+  });
+
+  logger.info({ outcome: feedback.outcome }, 'Suggestion feedback reported');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
 function buildSuggestionPayload(
   threadContext: ThreadContext,
   controls?: SuggestionControls
@@ -270,6 +583,7 @@ function buildSuggestionPayload(
   const quickQuestion = controls?.quickQuestion?.trim() || undefined;
   const customInstructions = controls?.customInstructions?.trim() || undefined;
   const savedPresetId = controls?.savedPresetId?.trim() || undefined;
+  const variantCount = controls?.variantCount && controls.variantCount > 1 ? controls.variantCount : undefined;
 
   return {
     threadId: threadContext.threadId,
@@ -281,6 +595,7 @@ function buildSuggestionPayload(
     quickQuestion,
     customInstructions,
     savedPresetId,
+    variantCount,
     messages: threadContext.messages.map((message) => ({
       senderId: message.senderType,
       text: message.text,
@@ -313,6 +628,10 @@ function extractSuggestionControls(payload: unknown): SuggestionControls | undef
     controls.savedPresetId = payload.savedPresetId;
   }
 
+  if (typeof payload.variantCount === 'number' && Number.isInteger(payload.variantCount)) {
+    controls.variantCount = payload.variantCount;
+  }
+
   return controls;
 }
 
@@ -413,6 +732,35 @@ function handleBackgroundMessage(
         });
         break;
 
+      case 'SUGGESTION_PARTIAL':
+        // Streamed draft text: relay to the panel so it can render progressively.
+        window.postMessage({
+          type: 'SUGGESTION_PARTIAL',
+          payload: message.payload,
+        }, '*');
+        sendResponse({
+          success: true,
+          data: null,
+          error: null,
+          requestId: message.requestId,
+        });
+        break;
+
+      case 'RATE_LIMIT_UPDATE': {
+        // Quota headers from the latest /suggest call drive the panel's usage meter.
+        const status = toRateLimitStatus(message.payload);
+        if (status) {
+          useStore.getState().setRateLimitStatus(status);
+        }
+        sendResponse({
+          success: true,
+          data: null,
+          error: null,
+          requestId: message.requestId,
+        });
+        break;
+      }
+
       default:
         sendResponse({
           success: false,
@@ -456,6 +804,8 @@ function cleanup(): void {
       watcher.stop();
     }
 
+    clearPendingDraft();
+
     if (injector) {
       injector.remove();
     }
@@ -205,6 +205,59 @@ export class FacebookMarketplaceAdapter {
     }
   }
 
+  /**
+   * Observe the user sending a message from the composer (Enter key or Send button click)
+   * Listens in the capture phase so the composer text is read before Facebook clears it
+   * Returns a function that stops watching
+   */
+  watchComposerSend(onSend: (text: string) => void): () => void {
+    const readComposerText = (): string | null => {
+      const text = this.findMessageInput()?.textContent?.trim();
+      return text ? text : null;
+    };
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key !== 'Enter' || event.shiftKey || event.isComposing) {
+        return;
+      }
+
+      const input = this.findMessageInput();
+      if (!input || !(event.target instanceof Node) || !input.contains(event.target)) {
+        return;
+      }
+
+      const text = readComposerText();
+      if (text) {
+        onSend(text);
+      }
+    };
+
+    const handleClick = (event: MouseEvent): void => {
+      if (!(event.target instanceof Element)) {
+        return;
+      }
+
+      const sendButton = event.target.closest(this.selectors.sendButton.join(','));
+      if (!sendButton) {
+        return;
+      }
+
+      const text = readComposerText();
+      if (text) {
+        onSend(text);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    document.addEventListener('click', handleClick, true);
+    logger.debug('Watching composer for send');
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown, true);
+      document.removeEventListener('click', handleClick, true);
+    };
+  }
+
   /**
    * Highlight send button to indicate user action required
    * Visual indicator only - NEVER clicks the button
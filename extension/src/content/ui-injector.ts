@@ -316,6 +316,22 @@ export class UIInjector {
         border-color: #fecaca;
       }
 
+      .status-badge.fallback {
+        background: #f1f5f9;
+        color: #475569;
+        border-color: #cbd5e1;
+      }
+
+      .fallback-notice {
+        margin-bottom: 8px;
+        padding: 8px 10px;
+        font-size: 12px;
+        color: #475569;
+        background: #f8fafc;
+        border: 1px dashed #cbd5e1;
+        border-radius: 6px;
+      }
+
       /* Button Styles */
       button {
         font-family: inherit;
@@ -337,6 +353,13 @@ export class UIInjector {
         cursor: not-allowed;
       }
 
+      /* Controls the plan does not include */
+      select:disabled,
+      textarea:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
       button.primary {
         background: #0EA5E9;
         color: white;
@@ -441,6 +464,17 @@ export class UIInjector {
         font-size: 13px;
       }
 
+      /* Plan Notice */
+      .plan-notice {
+        background: #fef3c7;
+        border: 1px solid #fde68a;
+        border-radius: 6px;
+        padding: 10px 12px;
+        margin-bottom: 12px;
+        color: #92400e;
+        font-size: 12px;
+      }
+
       /* Character Count */
       .char-count {
         font-size: 11px;
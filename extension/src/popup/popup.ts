@@ -19,6 +19,32 @@ function setStatus(message: string): void {
   status.textContent = message;
 }
 
+function setLinkStatus(message: string): void {
+  el<HTMLDivElement>('linkStatus').textContent = message;
+}
+
+/**
+ * Accepts either a full invite link or the bare token.
+ */
+function readInviteToken(value: string): string {
+  try {
+    return new URL(value).searchParams.get('token') ?? value;
+  } catch {
+    return value;
+  }
+}
+
+async function sendToBackground(message: unknown): Promise<Record<string, unknown>> {
+  const response = (await chrome.runtime.sendMessage(message)) as unknown;
+  const result = response && typeof response === 'object' ? response as Record<string, unknown> : {};
+
+  if (result.success !== true) {
+    throw new Error(typeof result.error === 'string' ? result.error : 'Request failed.');
+  }
+
+  return result;
+}
+
 async function loadProfile(): Promise<Profile> {
   const result = await chrome.storage.local.get([PROFILE_KEY]);
   const raw = result[PROFILE_KEY] as unknown;
@@ -88,6 +114,53 @@ async function init(): Promise<void> {
     })();
   });
 
+  let codeSent = false;
+  el<HTMLInputElement>('linkEmail').addEventListener('input', () => {
+    codeSent = false;
+    el<HTMLLabelElement>('linkCodeLabel').hidden = true;
+    el<HTMLButtonElement>('linkBtn').textContent = 'Send code';
+  });
+
+  el<HTMLFormElement>('linkForm').addEventListener('submit', (event) => {
+    event.preventDefault();
+    void (async () => {
+      const email = el<HTMLInputElement>('linkEmail').value.trim();
+      const code = el<HTMLInputElement>('linkCode').value.trim();
+
+      try {
+        if (!codeSent) {
+          await sendToBackground({ type: 'LINK_EMAIL_START', payload: { email } });
+          codeSent = true;
+          el<HTMLLabelElement>('linkCodeLabel').hidden = false;
+          el<HTMLButtonElement>('linkBtn').textContent = 'Verify';
+          setLinkStatus(`Code sent to ${email}.`);
+          return;
+        }
+
+        const result = await sendToBackground({ type: 'LINK_EMAIL_VERIFY', payload: { code } });
+        setLinkStatus(result.merged === true ? 'Device linked to your account.' : `Verified ${email}.`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Linking failed.';
+        setLinkStatus(message);
+      }
+    })();
+  });
+
+  el<HTMLFormElement>('inviteForm').addEventListener('submit', (event) => {
+    event.preventDefault();
+    void (async () => {
+      const token = readInviteToken(el<HTMLInputElement>('inviteLink').value.trim());
+
+      try {
+        const result = await sendToBackground({ type: 'ACCEPT_INVITE', payload: { token } });
+        el<HTMLDivElement>('inviteStatus').textContent = `Joined the team as ${String(result.role)}.`;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Joining failed.';
+        el<HTMLDivElement>('inviteStatus').textContent = message;
+      }
+    })();
+  });
+
   el<HTMLButtonElement>('clearBtn').addEventListener('click', () => {
     void (async () => {
       try {
@@ -12,7 +12,7 @@
  */
 
 import { create } from 'zustand';
-import type { ExtensionState, ThreadContext, Suggestion, RateLimitStatus, ExtensionError } from '@/types/index.ts';
+import type { ExtensionState, ThreadContext, Suggestion, RateLimitStatus, PlanInfo, PlanEntitlements, ExtensionError } from '@/types/index.ts';
 
 interface ExtensionStore extends ExtensionState {
   // Actions
@@ -20,6 +20,8 @@ interface ExtensionStore extends ExtensionState {
   setCurrentThread: (thread: ThreadContext | null) => void;
   setActiveSuggestion: (suggestion: Suggestion | null) => void;
   setRateLimitStatus: (status: RateLimitStatus | null) => void;
+  setPlanInfo: (planInfo: PlanInfo | null) => void;
+  setEntitlements: (entitlements: PlanEntitlements | null) => void;
   setConversationGoal: (goal: string) => void;
   setQuickQuestion: (question: string) => void;
   setUIVisible: (visible: boolean) => void;
@@ -33,6 +35,8 @@ const initialState: ExtensionState = {
   currentThread: null,
   activeSuggestion: null,
   rateLimitStatus: null,
+  planInfo: null,
+  entitlements: null,
   conversationGoal: 'general_assistance',
   quickQuestion: '',
   uiVisible: false,
@@ -54,6 +58,12 @@ export const useStore = create<ExtensionStore>((set) => ({
   setRateLimitStatus: (rateLimitStatus) => 
     set({ rateLimitStatus }),
 
+  setPlanInfo: (planInfo) =>
+    set({ planInfo }),
+
+  setEntitlements: (entitlements) =>
+    set({ entitlements }),
+
   setConversationGoal: (conversationGoal) =>
     set({ conversationGoal }),
 
@@ -15,6 +15,36 @@ export interface Account {
   updatedAt: string;
 }
 
+// Where a paid plan is in its lifecycle (GET /account)
+export type PlanStatus = 'trialing' | 'active' | 'grace' | 'expired';
+
+// Timestamps are epoch ms; graceEndsAt is when paid features stop for an expiring plan
+export interface PlanInfo {
+  plan: Account['planTier'];
+  planStatus: PlanStatus;
+  trialEndsAt: number | null;
+  planExpiresAt: number | null;
+  graceEndsAt: number | null;
+  autoRenews: boolean;
+}
+
+// What the account's plan unlocks (GET /account/entitlements); the panel disables the rest
+export interface PlanEntitlements {
+  dailyRequests: number;
+  userDailyRequests: number;
+  monthlyTokenBudget: number;
+  maxVariants: number;
+  maxTranscriptMessages: number;
+  maxMessageLength: number; // Longest suggested reply, in characters
+  allowedGoals: string[];
+  customInstructions: boolean;
+  settings: boolean;
+  maxPresets: number;
+  // Tried in order; later models answer when earlier ones are unavailable
+  models: Array<{ provider: string; model: string }>;
+  seats: number;
+}
+
 export interface User {
   id: string;
   accountId: string;
@@ -82,12 +112,28 @@ export interface SuggestionResponse {
 
 export interface Suggestion {
   id: string;
+  jobId: string | null; // Backend job id, used to report feedback
   threadId: string;
   messageText: string;
   intentScore: IntentScore;
   reasoning: string;
   generatedAt: number;
   tokensUsed: number;
+  variants: SuggestionVariant[];
+  source: SuggestionSource;
+  maxLength: number; // Character limit the reply was fitted to (preset or plan)
+}
+
+// `fallback` replies come from templates while the AI is unavailable
+export type SuggestionSource = 'model' | 'fallback';
+
+// Ranked alternative reply returned when more than one variant is requested
+export interface SuggestionVariant {
+  messageText: string;
+  tone: string;
+  confidence: number; // 0.0 - 1.0
+  reasoning: string;
+  nextAction: string;
 }
 
 export interface IntentScore {
@@ -127,6 +173,8 @@ export interface ActionLog {
   timestamp: number;
 }
 
+export type FeedbackOutcome = 'accepted' | 'edited' | 'rejected';
+
 export type ActionType =
   | 'suggestion_requested'
   | 'suggestion_accepted'
@@ -141,11 +189,19 @@ export type ActionType =
 // ============================================================================
 
 export interface RateLimitStatus {
-  accountId: string;
+  accountId: string | null;
   resource: string;
   remaining: number;
   limit: number;
   resetAt: number;
+  tokenBudget: TokenBudgetStatus | null;
+}
+
+// Monthly model token budget; a request is refused once the estimate exceeds `remaining`
+export interface TokenBudgetStatus {
+  remaining: number;
+  limit: number;
+  resetAt: number;
 }
 
 export interface CircuitBreakerState {
@@ -165,6 +221,8 @@ export interface ExtensionState {
   currentThread: ThreadContext | null;
   activeSuggestion: Suggestion | null;
   rateLimitStatus: RateLimitStatus | null;
+  planInfo: PlanInfo | null;
+  entitlements: PlanEntitlements | null;
   conversationGoal: string;
   quickQuestion: string;
   uiVisible: boolean;
@@ -186,6 +244,8 @@ export type ErrorCode =
   | 'INVALID_CONTEXT'
   | 'API_ERROR'
   | 'NOT_IMPLEMENTED'
+  | 'ACCOUNT_SUSPENDED'
+  | 'ACCOUNT_CLOSED'
   | 'UNKNOWN_ERROR';
 
 // ============================================================================
@@ -199,7 +259,9 @@ export type MessageType =
   | 'DISMISS_SUGGESTION'
   | 'REFRESH_TOKEN'
   | 'LOG_ACTION'
-  | 'GET_RATE_LIMIT';
+  | 'GET_RATE_LIMIT'
+  | 'SUGGESTION_PARTIAL'
+  | 'RATE_LIMIT_UPDATE';
 
 export interface ExtensionMessage<T = unknown> {
   type: MessageType;
@@ -13,24 +13,46 @@
 import { h } from 'preact';
 import { useState, useEffect } from 'preact/hooks';
 import { useStore } from '@/store/use-store.ts';
-import type { Suggestion } from '@/types/index.ts';
+import type { PlanEntitlements, PlanInfo, RateLimitStatus, Suggestion, SuggestionVariant } from '@/types/index.ts';
 
 interface PanelState {
   loading: boolean;
   error: string | null;
 }
 
+interface SuggestionVariantPayload {
+  suggestedMessage: string;
+  tone: string;
+  intentScore: number;
+  reasoning: string;
+  nextAction: 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+}
+
 interface SuggestionPayload {
   suggestedMessage: string;
   intentScore: number;
   reasoning: string;
   nextAction: 'ask_availability' | 'send_booking_link' | 'answer_question' | 'close';
+  variants?: SuggestionVariantPayload[];
+  jobId?: string;
+  source?: 'model' | 'fallback';
+  maxLength?: number;
 }
 
 interface SuggestionErrorPayload {
   error: string;
 }
 
+interface SuggestionPartialPayload {
+  suggestedMessage: string;
+}
+
+interface PresetOption {
+  id: string;
+  name: string;
+  baseGoal: string;
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
@@ -43,10 +65,60 @@ function isSuggestionPayload(value: unknown): value is SuggestionPayload {
     typeof value.nextAction === 'string';
 }
 
+function isSuggestionVariantPayload(value: unknown): value is SuggestionVariantPayload {
+  return isRecord(value) &&
+    typeof value.suggestedMessage === 'string' &&
+    typeof value.tone === 'string' &&
+    typeof value.intentScore === 'number' &&
+    typeof value.reasoning === 'string' &&
+    typeof value.nextAction === 'string';
+}
+
+function toSuggestionVariants(payload: SuggestionPayload): SuggestionVariant[] {
+  const variants = Array.isArray(payload.variants)
+    ? payload.variants.filter(isSuggestionVariantPayload)
+    : [];
+
+  if (variants.length === 0) {
+    return [{
+      messageText: payload.suggestedMessage,
+      tone: 'default',
+      confidence: payload.intentScore,
+      reasoning: payload.reasoning,
+      nextAction: payload.nextAction,
+    }];
+  }
+
+  return variants.map((variant) => ({
+    messageText: variant.suggestedMessage,
+    tone: variant.tone,
+    confidence: variant.intentScore,
+    reasoning: variant.reasoning,
+    nextAction: variant.nextAction,
+  }));
+}
+
 function isSuggestionErrorPayload(value: unknown): value is SuggestionErrorPayload {
   return isRecord(value) && typeof value.error === 'string';
 }
 
+function toPresetOptions(value: unknown): PresetOption[] {
+  if (!isRecord(value) || !Array.isArray(value.presets)) {
+    return [];
+  }
+
+  return value.presets.filter((preset): preset is PresetOption =>
+    isRecord(preset) &&
+    typeof preset.id === 'string' &&
+    typeof preset.name === 'string' &&
+    typeof preset.baseGoal === 'string'
+  );
+}
+
+function isSuggestionPartialPayload(value: unknown): value is SuggestionPartialPayload {
+  return isRecord(value) && typeof value.suggestedMessage === 'string';
+}
+
 function getGoalLabel(goal: string): string {
   switch (goal) {
     case 'buy_item':
@@ -68,6 +140,16 @@ function getGoalLabel(goal: string): string {
   }
 }
 
+const GOAL_OPTIONS = ['buy_item', 'sell_item', 'negotiate_price', 'arrange_pickup', 'general_assistance'];
+const VARIANT_OPTIONS = [1, 2, 3];
+// Free plan reply limit, used until entitlements load
+const DEFAULT_MAX_MESSAGE_LENGTH = 200;
+
+// Until entitlements load, nothing is disabled; the server still enforces the plan.
+function isGoalAvailable(entitlements: PlanEntitlements | null, goal: string): boolean {
+  return !entitlements || entitlements.allowedGoals.includes(goal);
+}
+
 function getQuickQuestionLabel(value: string): string {
   switch (value) {
     case 'availability':
@@ -85,6 +167,53 @@ function getQuickQuestionLabel(value: string): string {
   }
 }
 
+function getToneLabel(tone: string): string {
+  if (tone === 'default') return 'Suggested';
+  return tone.charAt(0).toUpperCase() + tone.slice(1);
+}
+
+/**
+ * Which quota blocks generation right now, ignoring counters whose reset time has passed.
+ */
+function getExhaustedQuota(status: RateLimitStatus | null, now: number): 'requests' | 'tokens' | null {
+  if (!status) return null;
+  if (status.remaining === 0 && status.resetAt > now) return 'requests';
+  if (status.tokenBudget && status.tokenBudget.remaining === 0 && status.tokenBudget.resetAt > now) {
+    return 'tokens';
+  }
+  return null;
+}
+
+// How far ahead the panel warns that paid features are about to stop.
+const PLAN_WARNING_DAYS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Notice shown while a trial or expiring plan is close to losing its paid features.
+ */
+function getPlanWarning(planInfo: PlanInfo | null, now: number): string | null {
+  if (!planInfo || planInfo.plan === 'free') return null;
+
+  const planLabel = planInfo.plan === 'enterprise' ? 'Enterprise' : 'Pro';
+  const endsAt = planInfo.planStatus === 'trialing' ? planInfo.trialEndsAt : planInfo.graceEndsAt;
+  if (!endsAt || endsAt <= now) return null;
+
+  const days = Math.ceil((endsAt - now) / DAY_MS);
+  const when = days <= 1 ? 'within a day' : `in ${days} days`;
+
+  if (planInfo.planStatus === 'grace') {
+    return `Your ${planLabel} plan has expired. ${planLabel} features stop working ${when}.`;
+  }
+
+  if (days > PLAN_WARNING_DAYS) return null;
+
+  if (planInfo.planStatus === 'trialing') {
+    return `Your ${planLabel} trial ends ${when}.`;
+  }
+
+  return planInfo.autoRenews ? null : `Your ${planLabel} plan ends ${when}.`;
+}
+
 function shouldShowUpgrade(errorMessage: string | null): boolean {
   if (!errorMessage) return false;
   const lowered = errorMessage.toLowerCase();
@@ -97,12 +226,15 @@ export function AssistantPanel(): h.JSX.Element {
   const currentThread = useStore(state => state.currentThread);
   const activeSuggestion = useStore(state => state.activeSuggestion);
   const rateLimitStatus = useStore(state => state.rateLimitStatus);
+  const planInfo = useStore(state => state.planInfo);
+  const entitlements = useStore(state => state.entitlements);
   const conversationGoal = useStore(state => state.conversationGoal);
   const setConversationGoal = useStore(state => state.setConversationGoal);
   const quickQuestion = useStore(state => state.quickQuestion);
   const setQuickQuestion = useStore(state => state.setQuickQuestion);
   const setActiveSuggestion = useStore(state => state.setActiveSuggestion);
   const clearError = useStore(state => state.clearError);
+  const storeError = useStore(state => state.error);
 
   // Local UI state
   const [state, setState] = useState<PanelState>({
@@ -111,6 +243,12 @@ export function AssistantPanel(): h.JSX.Element {
   });
   const [customInstructions, setCustomInstructions] = useState<string>('');
   const [savedPresetId, setSavedPresetId] = useState<string>('');
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variantIndex, setVariantIndex] = useState<number>(0);
+  const [presets, setPresets] = useState<PresetOption[]>([]);
+  const [partialMessage, setPartialMessage] = useState<string>('');
+  // Job whose draft was inserted; its outcome is reported when the user sends it
+  const [insertedJobId, setInsertedJobId] = useState<string | null>(null);
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
       if (event.source !== window) {
@@ -121,9 +259,22 @@ export function AssistantPanel(): h.JSX.Element {
         return;
       }
 
+      if (event.data.type === 'PRESETS_READY') {
+        const options = toPresetOptions(event.data.payload);
+        setPresets(options);
+        setSavedPresetId((current) => (options.some((preset) => preset.id === current) ? current : ''));
+        return;
+      }
+
+      if (event.data.type === 'SUGGESTION_PARTIAL' && isSuggestionPartialPayload(event.data.payload)) {
+        setPartialMessage(event.data.payload.suggestedMessage);
+        return;
+      }
+
       if (event.data.type === 'SUGGESTION_READY' && isSuggestionPayload(event.data.payload)) {
         const suggestion: Suggestion = {
           id: `suggestion-${Date.now()}`,
+          jobId: event.data.payload.jobId ?? null,
           threadId: currentThread?.threadId ?? 'unknown',
           messageText: event.data.payload.suggestedMessage,
           intentScore: {
@@ -134,27 +285,38 @@ export function AssistantPanel(): h.JSX.Element {
           reasoning: event.data.payload.reasoning,
           generatedAt: Date.now(),
           tokensUsed: 0,
+          variants: toSuggestionVariants(event.data.payload),
+          source: event.data.payload.source === 'fallback' ? 'fallback' : 'model',
+          maxLength: event.data.payload.maxLength ?? entitlements?.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH,
         };
 
         setActiveSuggestion(suggestion);
+        setVariantIndex(0);
+        setPartialMessage('');
         setState({ loading: false, error: null });
         return;
       }
 
       if (event.data.type === 'SUGGESTION_ERROR' && isSuggestionErrorPayload(event.data.payload)) {
         setActiveSuggestion(null);
+        setPartialMessage('');
         setState({ loading: false, error: event.data.payload.error });
       }
     };
 
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, [currentThread, setActiveSuggestion]);
+  }, [currentThread, entitlements, setActiveSuggestion]);
+
+  useEffect(() => {
+    window.postMessage({ type: 'REQUEST_PRESETS_FROM_UI' }, '*');
+    window.postMessage({ type: 'REQUEST_USAGE_FROM_UI' }, '*');
+  }, []);
 
   useEffect(() => {
     let isMounted = true;
 
-    void chrome.storage.local.get(['conversation_goal', 'quick_question']).then((result) => {
+    void chrome.storage.local.get(['conversation_goal', 'quick_question', 'variant_count']).then((result) => {
       if (!isMounted) return;
       const storedGoal = result.conversation_goal;
       if (typeof storedGoal === 'string' && storedGoal.length > 0) {
@@ -165,6 +327,11 @@ export function AssistantPanel(): h.JSX.Element {
       if (typeof storedQuickQuestion === 'string') {
         setQuickQuestion(storedQuickQuestion);
       }
+
+      const storedVariantCount = result.variant_count;
+      if (typeof storedVariantCount === 'number' && storedVariantCount >= 1) {
+        setVariantCount(storedVariantCount);
+      }
     }).catch(() => undefined);
 
     return () => {
@@ -180,6 +347,27 @@ export function AssistantPanel(): h.JSX.Element {
     void chrome.storage.local.set({ quick_question: quickQuestion }).catch(() => undefined);
   }, [quickQuestion]);
 
+  useEffect(() => {
+    void chrome.storage.local.set({ variant_count: variantCount }).catch(() => undefined);
+  }, [variantCount]);
+
+  // Drop selections the plan does not include so requests are not rejected with a 403
+  useEffect(() => {
+    if (!entitlements) return;
+    if (!isGoalAvailable(entitlements, conversationGoal)) {
+      setConversationGoal('general_assistance');
+    }
+    if (variantCount > entitlements.maxVariants) {
+      setVariantCount(Math.max(1, entitlements.maxVariants));
+    }
+    if (!entitlements.customInstructions) {
+      setCustomInstructions('');
+    }
+    if (!entitlements.settings) {
+      setSavedPresetId('');
+    }
+  }, [entitlements, conversationGoal, variantCount, setConversationGoal]);
+
   /**
    * Request AI suggestion from background script
    */
@@ -189,9 +377,14 @@ export function AssistantPanel(): h.JSX.Element {
       return;
     }
 
+    if (getExhaustedQuota(rateLimitStatus, Date.now())) {
+      return;
+    }
+
     setState({ loading: true, error: null });
     clearError();
     setActiveSuggestion(null);
+    setPartialMessage('');
 
     // Trigger suggestion request via content script
     window.postMessage({
@@ -203,6 +396,7 @@ export function AssistantPanel(): h.JSX.Element {
           : undefined,
         customInstructions: customInstructions.trim() || undefined,
         savedPresetId: savedPresetId.trim() || undefined,
+        variantCount: variantCount > 1 ? variantCount : undefined,
       },
     }, '*');
   };
@@ -219,12 +413,20 @@ export function AssistantPanel(): h.JSX.Element {
       return;
     }
 
+    const selected = activeSuggestion.variants[variantIndex];
+    const message = selected ? selected.messageText : activeSuggestion.messageText;
+
     try {
       // Send message to content script to insert draft
       window.postMessage({
         type: 'CLAUDE_USE_DRAFT',
-        payload: { message: activeSuggestion.messageText },
+        payload: {
+          message,
+          jobId: activeSuggestion.jobId ?? undefined,
+          variantIndex: selected ? variantIndex : 0,
+        },
       }, '*');
+      setInsertedJobId(activeSuggestion.jobId);
 
       console.log('[Claude] Draft insertion requested');
 
@@ -241,6 +443,18 @@ export function AssistantPanel(): h.JSX.Element {
    * Dismiss current suggestion
    */
   const handleDismiss = (): void => {
+    // Dismissing after inserting is not a rejection; the send detector reports that draft.
+    if (activeSuggestion?.jobId && activeSuggestion.jobId !== insertedJobId) {
+      window.postMessage({
+        type: 'SUGGESTION_FEEDBACK',
+        payload: {
+          jobId: activeSuggestion.jobId,
+          outcome: 'rejected',
+          variantIndex: Math.min(variantIndex, Math.max(0, activeSuggestion.variants.length - 1)),
+        },
+      }, '*');
+    }
+
     setActiveSuggestion(null);
     setState({ loading: false, error: null });
   };
@@ -261,10 +475,119 @@ export function AssistantPanel(): h.JSX.Element {
   /**
    * Calculate character count warning
    */
-  const getCharCountClass = (length: number): string => {
-    return length > 200 ? 'warning' : '';
+  const getCharCountClass = (length: number, maxLength: number): string => {
+    return length > maxLength ? 'warning' : '';
   };
 
+  /**
+   * Goal, question, reply option and Pro controls shared by every panel state
+   */
+  const renderControls = (marginBottom?: string): h.JSX.Element => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom }}>
+      <label style={{ fontSize: '12px', color: '#374151' }}>
+        What are you trying to accomplish?
+        <select
+          value={conversationGoal}
+          onChange={(event) => setConversationGoal((event.target as HTMLSelectElement).value)}
+          style={{ width: '100%', marginTop: '4px' }}
+        >
+          {GOAL_OPTIONS.map((goal) => (
+            <option key={goal} value={goal} disabled={!isGoalAvailable(entitlements, goal)}>
+              {getGoalLabel(goal)}{isGoalAvailable(entitlements, goal) ? '' : ' (Pro)'}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label style={{ fontSize: '12px', color: '#374151' }}>
+        Simple question (optional)
+        <select
+          value={quickQuestion}
+          onChange={(event) => setQuickQuestion((event.target as HTMLSelectElement).value)}
+          style={{ width: '100%', marginTop: '4px' }}
+        >
+          <option value="">None</option>
+          <option value="availability">{getQuickQuestionLabel('availability')}</option>
+          <option value="condition">{getQuickQuestionLabel('condition')}</option>
+          <option value="pickup_location">{getQuickQuestionLabel('pickup_location')}</option>
+          <option value="pickup_time">{getQuickQuestionLabel('pickup_time')}</option>
+          <option value="price_flex">{getQuickQuestionLabel('price_flex')}</option>
+        </select>
+      </label>
+      <label style={{ fontSize: '12px', color: '#374151' }}>
+        Reply options
+        <select
+          value={String(variantCount)}
+          onChange={(event) => setVariantCount(parseInt((event.target as HTMLSelectElement).value, 10))}
+          style={{ width: '100%', marginTop: '4px' }}
+        >
+          {VARIANT_OPTIONS.map((count) => (
+            <option
+              key={count}
+              value={String(count)}
+              disabled={entitlements !== null && count > entitlements.maxVariants}
+            >
+              {count === 1 ? '1 reply' : `${count} replies (Pro)`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={{ fontSize: '12px', color: '#374151' }}>
+        Custom instructions (Pro)
+        <textarea
+          value={customInstructions}
+          onInput={(event) => setCustomInstructions((event.target as HTMLTextAreaElement).value)}
+          rows={3}
+          placeholder="Optional: guidance for the assistant"
+          disabled={entitlements !== null && !entitlements.customInstructions}
+          style={{ width: '100%', marginTop: '4px' }}
+        />
+      </label>
+      <label style={{ fontSize: '12px', color: '#374151' }}>
+        Saved preset (Pro)
+        <select
+          value={savedPresetId}
+          onChange={(event) => setSavedPresetId((event.target as HTMLSelectElement).value)}
+          disabled={presets.length === 0 || (entitlements !== null && !entitlements.settings)}
+          style={{ width: '100%', marginTop: '4px' }}
+        >
+          <option value="">{presets.length === 0 ? 'No saved presets' : 'None'}</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name} ({getGoalLabel(preset.baseGoal)})
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  // Render suspended or closed account; nothing can be generated until it is restored
+  if (storeError && (storeError.code === 'ACCOUNT_SUSPENDED' || storeError.code === 'ACCOUNT_CLOSED')) {
+    return (
+      <div class="assistant-panel">
+        <div class="panel-header">
+          <h3>AI Assistant</h3>
+          <span class="status-badge error">
+            {storeError.code === 'ACCOUNT_SUSPENDED' ? 'Account suspended' : 'Account closed'}
+          </span>
+        </div>
+        <div class="error-message">{storeError.message}</div>
+        <div class="actions">
+          <button
+            class="secondary"
+            onClick={() => {
+              setState({ loading: false, error: null });
+              window.postMessage({ type: 'REQUEST_USAGE_FROM_UI' }, '*');
+            }}
+          >
+            Check again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Render loading state
   if (state.loading) {
     return (
@@ -280,8 +603,11 @@ export function AssistantPanel(): h.JSX.Element {
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '20px 0' }}>
           <span class="spinner"></span>
-          <span>Claude is analyzing the conversation...</span>
+          <span>{partialMessage ? 'Claude is writing a reply...' : 'Claude is analyzing the conversation...'}</span>
         </div>
+        {partialMessage && (
+          <div class="suggestion-text">{partialMessage}</div>
+        )}
       </div>
     );
   }
@@ -289,59 +615,6 @@ export function AssistantPanel(): h.JSX.Element {
   // Render error state
   if (state.error) {
     const showUpgrade = shouldShowUpgrade(state.error);
-    const controls = (
-      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          What are you trying to accomplish?
-          <select
-            value={conversationGoal}
-            onChange={(event) => setConversationGoal((event.target as HTMLSelectElement).value)}
-            style={{ width: '100%', marginTop: '4px' }}
-          >
-            <option value="buy_item">Buy Item</option>
-            <option value="sell_item">Sell Item</option>
-            <option value="negotiate_price">Negotiate Price</option>
-            <option value="arrange_pickup">Arrange Pickup</option>
-            <option value="general_assistance">General Help</option>
-          </select>
-        </label>
-
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          Simple question (optional)
-          <select
-            value={quickQuestion}
-            onChange={(event) => setQuickQuestion((event.target as HTMLSelectElement).value)}
-            style={{ width: '100%', marginTop: '4px' }}
-          >
-            <option value="">None</option>
-            <option value="availability">{getQuickQuestionLabel('availability')}</option>
-            <option value="condition">{getQuickQuestionLabel('condition')}</option>
-            <option value="pickup_location">{getQuickQuestionLabel('pickup_location')}</option>
-            <option value="pickup_time">{getQuickQuestionLabel('pickup_time')}</option>
-            <option value="price_flex">{getQuickQuestionLabel('price_flex')}</option>
-          </select>
-        </label>
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          Custom instructions (Pro)
-          <textarea
-            value={customInstructions}
-            onInput={(event) => setCustomInstructions((event.target as HTMLTextAreaElement).value)}
-            rows={3}
-            placeholder="Optional: guidance for the assistant"
-            style={{ width: '100%', marginTop: '4px' }}
-          />
-        </label>
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          Saved preset ID (Pro)
-          <input
-            value={savedPresetId}
-            onInput={(event) => setSavedPresetId((event.target as HTMLInputElement).value)}
-            placeholder="Optional preset id"
-            style={{ width: '100%', marginTop: '4px' }}
-          />
-        </label>
-      </div>
-    );
 
     return (
       <div class="assistant-panel">
@@ -354,7 +627,7 @@ export function AssistantPanel(): h.JSX.Element {
             <span class="status-badge error">Error</span>
           </div>
         </div>
-        {controls}
+        {renderControls()}
         <div class="error-message">{state.error}</div>
         <div class="actions">
           <button 
@@ -371,6 +644,7 @@ export function AssistantPanel(): h.JSX.Element {
           <button 
             class="primary" 
             onClick={handleGenerateSuggestion}
+            disabled={getExhaustedQuota(rateLimitStatus, Date.now()) !== null}
           >
             Try Again
           </button>
@@ -381,8 +655,14 @@ export function AssistantPanel(): h.JSX.Element {
 
   // Render suggestion display
   if (activeSuggestion) {
-    const intentBadge = getIntentBadge(activeSuggestion.intentScore.confidence);
-    const charCount = activeSuggestion.messageText.length;
+    const variants = activeSuggestion.variants;
+    const selectedIndex = Math.min(variantIndex, Math.max(0, variants.length - 1));
+    const selected = variants[selectedIndex];
+    const messageText = selected ? selected.messageText : activeSuggestion.messageText;
+    const reasoning = selected ? selected.reasoning : activeSuggestion.reasoning;
+    const intentBadge = getIntentBadge(selected ? selected.confidence : activeSuggestion.intentScore.confidence);
+    const charCount = messageText.length;
+    const isFallback = activeSuggestion.source === 'fallback';
 
     return (
       <div class="assistant-panel">
@@ -395,66 +675,44 @@ export function AssistantPanel(): h.JSX.Element {
             <span class={`intent-badge ${intentBadge.className}`}>
               {intentBadge.label}
             </span>
-            <span class="status-badge ready">Ready</span>
+            {isFallback
+              ? <span class="status-badge fallback">Offline</span>
+              : <span class="status-badge ready">Ready</span>}
           </div>
         </div>
 
         <div>
-          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '8px' }}>
-            <label style={{ fontSize: '12px', color: '#374151' }}>
-              What are you trying to accomplish?
-              <select
-                value={conversationGoal}
-                onChange={(event) => setConversationGoal((event.target as HTMLSelectElement).value)}
-                style={{ width: '100%', marginTop: '4px' }}
+          {renderControls('8px')}
+          {isFallback && (
+            <div class="fallback-notice">
+              The AI assistant is unavailable right now, so this is a basic template reply. Review it before sending.
+            </div>
+          )}
+          {variants.length > 1 && (
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px', fontSize: '12px', color: '#374151' }}>
+              <button
+                class="secondary"
+                onClick={() => setVariantIndex((selectedIndex - 1 + variants.length) % variants.length)}
+                aria-label="Previous reply option"
               >
-                <option value="buy_item">Buy Item</option>
-                <option value="sell_item">Sell Item</option>
-                <option value="negotiate_price">Negotiate Price</option>
-                <option value="arrange_pickup">Arrange Pickup</option>
-                <option value="general_assistance">General Help</option>
-              </select>
-            </label>
-
-            <label style={{ fontSize: '12px', color: '#374151' }}>
-              Simple question (optional)
-              <select
-                value={quickQuestion}
-                onChange={(event) => setQuickQuestion((event.target as HTMLSelectElement).value)}
-                style={{ width: '100%', marginTop: '4px' }}
+                ‹
+              </button>
+              <span>
+                {selected ? getToneLabel(selected.tone) : ''} · {selectedIndex + 1} of {variants.length}
+              </span>
+              <button
+                class="secondary"
+                onClick={() => setVariantIndex((selectedIndex + 1) % variants.length)}
+                aria-label="Next reply option"
               >
-                <option value="">None</option>
-                <option value="availability">{getQuickQuestionLabel('availability')}</option>
-                <option value="condition">{getQuickQuestionLabel('condition')}</option>
-                <option value="pickup_location">{getQuickQuestionLabel('pickup_location')}</option>
-                <option value="pickup_time">{getQuickQuestionLabel('pickup_time')}</option>
-                <option value="price_flex">{getQuickQuestionLabel('price_flex')}</option>
-              </select>
-            </label>
-            <label style={{ fontSize: '12px', color: '#374151' }}>
-              Custom instructions (Pro)
-              <textarea
-                value={customInstructions}
-                onInput={(event) => setCustomInstructions((event.target as HTMLTextAreaElement).value)}
-                rows={3}
-                placeholder="Optional: guidance for the assistant"
-                style={{ width: '100%', marginTop: '4px' }}
-              />
-            </label>
-            <label style={{ fontSize: '12px', color: '#374151' }}>
-              Saved preset ID (Pro)
-              <input
-                value={savedPresetId}
-                onInput={(event) => setSavedPresetId((event.target as HTMLInputElement).value)}
-                placeholder="Optional preset id"
-                style={{ width: '100%', marginTop: '4px' }}
-              />
-            </label>
-          </div>
-          <div class="suggestion-text">{activeSuggestion.messageText}</div>
-          <div class="suggestion-reasoning">{activeSuggestion.reasoning}</div>
-          <div class={`char-count ${getCharCountClass(charCount)}`}>
-            {charCount} characters {charCount > 200 && '(consider shortening)'}
+                ›
+              </button>
+            </div>
+          )}
+          <div class="suggestion-text">{messageText}</div>
+          <div class="suggestion-reasoning">{reasoning}</div>
+          <div class={`char-count ${getCharCountClass(charCount, activeSuggestion.maxLength)}`}>
+            {charCount} / {activeSuggestion.maxLength} characters {charCount > activeSuggestion.maxLength && '(consider shortening)'}
           </div>
         </div>
 
@@ -477,6 +735,9 @@ export function AssistantPanel(): h.JSX.Element {
   }
 
   // Render initial state (ready to generate)
+  const exhaustedQuota = getExhaustedQuota(rateLimitStatus, Date.now());
+  const planWarning = getPlanWarning(planInfo, Date.now());
+
   return (
     <div class="assistant-panel">
       <div class="panel-header">
@@ -489,57 +750,16 @@ export function AssistantPanel(): h.JSX.Element {
         </div>
       </div>
 
-      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          What are you trying to accomplish?
-          <select
-            value={conversationGoal}
-            onChange={(event) => setConversationGoal((event.target as HTMLSelectElement).value)}
-            style={{ width: '100%', marginTop: '4px' }}
-          >
-            <option value="buy_item">Buy Item</option>
-            <option value="sell_item">Sell Item</option>
-            <option value="negotiate_price">Negotiate Price</option>
-            <option value="arrange_pickup">Arrange Pickup</option>
-            <option value="general_assistance">General Help</option>
-          </select>
-        </label>
-
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          Simple question (optional)
-          <select
-            value={quickQuestion}
-            onChange={(event) => setQuickQuestion((event.target as HTMLSelectElement).value)}
-            style={{ width: '100%', marginTop: '4px' }}
-          >
-            <option value="">None</option>
-            <option value="availability">{getQuickQuestionLabel('availability')}</option>
-            <option value="condition">{getQuickQuestionLabel('condition')}</option>
-            <option value="pickup_location">{getQuickQuestionLabel('pickup_location')}</option>
-            <option value="pickup_time">{getQuickQuestionLabel('pickup_time')}</option>
-            <option value="price_flex">{getQuickQuestionLabel('price_flex')}</option>
-          </select>
-        </label>
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          Custom instructions (Pro)
-          <textarea
-            value={customInstructions}
-            onInput={(event) => setCustomInstructions((event.target as HTMLTextAreaElement).value)}
-            rows={3}
-            placeholder="Optional: guidance for the assistant"
-            style={{ width: '100%', marginTop: '4px' }}
-          />
-        </label>
-        <label style={{ fontSize: '12px', color: '#374151' }}>
-          Saved preset ID (Pro)
-          <input
-            value={savedPresetId}
-            onInput={(event) => setSavedPresetId((event.target as HTMLInputElement).value)}
-            placeholder="Optional preset id"
-            style={{ width: '100%', marginTop: '4px' }}
-          />
-        </label>
-      </div>
+      {renderControls('12px')}
+
+      {planWarning && (
+        <div class="plan-notice">
+          {planWarning}{' '}
+          <a href="#" onClick={(event) => { event.preventDefault(); handleUpgrade(); }}>
+            Keep {planInfo?.plan === 'enterprise' ? 'Enterprise' : 'Pro'}
+          </a>
+        </div>
+      )}
 
       <div style={{ marginBottom: '12px', color: '#6b7280', fontSize: '13px' }}>
         {currentThread 
@@ -547,17 +767,30 @@ export function AssistantPanel(): h.JSX.Element {
           : 'Waiting for thread detection...'}
       </div>
 
-      {rateLimitStatus && rateLimitStatus.remaining === 0 && (
+      {rateLimitStatus && !exhaustedQuota && (
+        <div style={{ marginBottom: '12px', color: '#6b7280', fontSize: '12px' }}>
+          {rateLimitStatus.remaining} of {rateLimitStatus.limit} replies left today
+          {rateLimitStatus.resetAt > 0 && ` · resets ${new Date(rateLimitStatus.resetAt).toLocaleTimeString()}`}
+        </div>
+      )}
+
+      {rateLimitStatus && exhaustedQuota === 'requests' && (
         <div class="error-message">
           Rate limit reached. Resets at {new Date(rateLimitStatus.resetAt).toLocaleTimeString()}
         </div>
       )}
 
+      {rateLimitStatus?.tokenBudget && exhaustedQuota === 'tokens' && (
+        <div class="error-message">
+          Monthly usage limit reached. Resets on {new Date(rateLimitStatus.tokenBudget.resetAt).toLocaleDateString()}
+        </div>
+      )}
+
       <div class="actions">
         <button 
           class="primary" 
           onClick={handleGenerateSuggestion}
-          disabled={!currentThread || !isAuthenticated || (rateLimitStatus?.remaining === 0)}
+          disabled={!currentThread || !isAuthenticated || exhaustedQuota !== null}
         >
           {!isAuthenticated 
             ? 'Not Authenticated' 